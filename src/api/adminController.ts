@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { graph } from '../core/graph';
+import { dataValidator } from '../core/dataValidator';
+import { dataStore } from '../infra/dataStore';
+import { dataReloader } from '../infra/dataReloader';
+import { GraphData, Edge, Route, Trip, Disruption } from '../core/types';
+
+/**
+ * Rejects a change before validation (unknown ID, duplicate, bad body)
+ */
+class AdminRequestError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Apply a change to a copy of the network data. It is validated, written to disk
+ * and swapped into the live graph only if the whole data set is still consistent.
+ */
+function commitChange(res: Response, successStatus: number, change: (data: GraphData) => unknown): void {
+    try {
+        const data = graph.toData();
+        const result = change(data);
+
+        const errors = dataValidator.validate(data).filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            res.status(400).json({
+                error: 'Validation failed',
+                issues: errors
+            });
+            return;
+        }
+
+        dataStore.write(data);
+        dataReloader.apply(data);
+
+        console.log(`✓ Admin change saved (${data.nodes.length} nodes, ${data.edges.length} edges, ${data.routes.length} routes)`);
+        res.status(successStatus).json(result);
+    } catch (error: any) {
+        if (error instanceof AdminRequestError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+
+        console.error('Error applying admin change:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+function requireBody(req: Request): Record<string, any> {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        throw new AdminRequestError(400, 'Request body must be a JSON object');
+    }
+    return req.body;
+}
+
+function findTrip(data: GraphData, tripId: string): { route: Route; index: number } {
+    for (const route of data.routes) {
+        const index = route.trips.findIndex(trip => trip.trip_id === tripId);
+        if (index !== -1) {
+            return { route, index };
+        }
+    }
+    throw new AdminRequestError(404, `Trip '${tripId}' not found`);
+}
+
+function findEdgeIndex(data: GraphData, params: Request['params']): number {
+    const index = data.edges.findIndex(edge =>
+        edge.from === params.from && edge.to === params.to && edge.mode === params.mode
+    );
+    if (index === -1) {
+        throw new AdminRequestError(404, `Edge ${params.from}→${params.to} (${params.mode}) not found`);
+    }
+    return index;
+}
+
+// ============================================================================
+// Nodes
+// ============================================================================
+
+/**
+ * POST /api/admin/nodes
+ */
+export function createNode(req: Request, res: Response): void {
+    commitChange(res, 201, data => {
+        const node = requireBody(req);
+        if (data.nodes.some(existing => existing.id === node.id)) {
+            throw new AdminRequestError(409, `Node '${node.id}' already exists`);
+        }
+        data.nodes.push(node as GraphData['nodes'][number]);
+        return node;
+    });
+}
+
+/**
+ * PUT /api/admin/nodes/:nodeId
+ */
+export function updateNode(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const index = data.nodes.findIndex(node => node.id === req.params.nodeId);
+        if (index === -1) {
+            throw new AdminRequestError(404, `Node '${req.params.nodeId}' not found`);
+        }
+        data.nodes[index] = { ...requireBody(req), id: req.params.nodeId } as GraphData['nodes'][number];
+        return data.nodes[index];
+    });
+}
+
+/**
+ * DELETE /api/admin/nodes/:nodeId (fails validation while edges or trips still use it)
+ */
+export function deleteNode(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const index = data.nodes.findIndex(node => node.id === req.params.nodeId);
+        if (index === -1) {
+            throw new AdminRequestError(404, `Node '${req.params.nodeId}' not found`);
+        }
+        data.nodes.splice(index, 1);
+        return { deleted: req.params.nodeId };
+    });
+}
+
+// ============================================================================
+// Edges (identified by from, to and mode)
+// ============================================================================
+
+/**
+ * POST /api/admin/edges
+ */
+export function createEdge(req: Request, res: Response): void {
+    commitChange(res, 201, data => {
+        const edge = requireBody(req) as Edge;
+        if (data.edges.some(existing => existing.from === edge.from && existing.to === edge.to && existing.mode === edge.mode)) {
+            throw new AdminRequestError(409, `Edge ${edge.from}→${edge.to} (${edge.mode}) already exists`);
+        }
+        data.edges.push(edge);
+        return edge;
+    });
+}
+
+/**
+ * PUT /api/admin/edges/:from/:to/:mode
+ */
+export function updateEdge(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const index = findEdgeIndex(data, req.params);
+        data.edges[index] = {
+            ...requireBody(req),
+            from: req.params.from,
+            to: req.params.to,
+            mode: req.params.mode
+        } as Edge;
+        return data.edges[index];
+    });
+}
+
+/**
+ * DELETE /api/admin/edges/:from/:to/:mode
+ */
+export function deleteEdge(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const [removed] = data.edges.splice(findEdgeIndex(data, req.params), 1);
+        return { deleted: { from: removed.from, to: removed.to, mode: removed.mode } };
+    });
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * POST /api/admin/routes
+ */
+export function createRoute(req: Request, res: Response): void {
+    commitChange(res, 201, data => {
+        const body = requireBody(req);
+        if (data.routes.some(route => route.route_id === body.route_id)) {
+            throw new AdminRequestError(409, `Route '${body.route_id}' already exists`);
+        }
+        const route: Route = { route_id: body.route_id, name: body.name, trips: body.trips || [] };
+        data.routes.push(route);
+        return route;
+    });
+}
+
+/**
+ * PUT /api/admin/routes/:routeId (trips are kept unless the body replaces them)
+ */
+export function updateRoute(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const route = data.routes.find(existing => existing.route_id === req.params.routeId);
+        if (!route) {
+            throw new AdminRequestError(404, `Route '${req.params.routeId}' not found`);
+        }
+        const body = requireBody(req);
+        if (body.name !== undefined) route.name = body.name;
+        if (body.trips !== undefined) route.trips = body.trips;
+        return route;
+    });
+}
+
+/**
+ * DELETE /api/admin/routes/:routeId (fails validation while edges still list it)
+ */
+export function deleteRoute(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const index = data.routes.findIndex(route => route.route_id === req.params.routeId);
+        if (index === -1) {
+            throw new AdminRequestError(404, `Route '${req.params.routeId}' not found`);
+        }
+        data.routes.splice(index, 1);
+        return { deleted: req.params.routeId };
+    });
+}
+
+// ============================================================================
+// Trips
+// ============================================================================
+
+/**
+ * POST /api/admin/routes/:routeId/trips
+ */
+export function createTrip(req: Request, res: Response): void {
+    commitChange(res, 201, data => {
+        const route = data.routes.find(existing => existing.route_id === req.params.routeId);
+        if (!route) {
+            throw new AdminRequestError(404, `Route '${req.params.routeId}' not found`);
+        }
+        const trip = requireBody(req) as Trip;
+        route.trips.push(trip);
+        return { route_id: route.route_id, trip };
+    });
+}
+
+/**
+ * PUT /api/admin/trips/:tripId
+ */
+export function updateTrip(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const { route, index } = findTrip(data, req.params.tripId);
+        route.trips[index] = { ...requireBody(req), trip_id: req.params.tripId } as Trip;
+        return { route_id: route.route_id, trip: route.trips[index] };
+    });
+}
+
+/**
+ * DELETE /api/admin/trips/:tripId
+ */
+export function deleteTrip(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const { route, index } = findTrip(data, req.params.tripId);
+        route.trips.splice(index, 1);
+        return { deleted: req.params.tripId, route_id: route.route_id };
+    });
+}
+
+// ============================================================================
+// Disruptions (service alerts)
+// ============================================================================
+
+/**
+ * GET /api/admin/disruptions - Every disruption, including past and future ones
+ */
+export function listDisruptions(req: Request, res: Response): void {
+    try {
+        const disruptions = graph.getAllDisruptions();
+        res.json({
+            count: disruptions.length,
+            disruptions
+        });
+    } catch (error: any) {
+        console.error('Error listing disruptions:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * POST /api/admin/disruptions (an id is generated when the body has none)
+ */
+export function createDisruption(req: Request, res: Response): void {
+    commitChange(res, 201, data => {
+        const { id, ...fields } = requireBody(req);
+        const disruption = { id: id || `D-${Date.now().toString(36).toUpperCase()}`, ...fields } as Disruption;
+        data.disruptions = data.disruptions || [];
+        if (data.disruptions.some(existing => existing.id === disruption.id)) {
+            throw new AdminRequestError(409, `Disruption '${disruption.id}' already exists`);
+        }
+        data.disruptions.push(disruption);
+        return disruption;
+    });
+}
+
+/**
+ * PUT /api/admin/disruptions/:disruptionId
+ */
+export function updateDisruption(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const disruptions = data.disruptions || [];
+        const index = disruptions.findIndex(disruption => disruption.id === req.params.disruptionId);
+        if (index === -1) {
+            throw new AdminRequestError(404, `Disruption '${req.params.disruptionId}' not found`);
+        }
+        disruptions[index] = { ...requireBody(req), id: req.params.disruptionId } as Disruption;
+        return disruptions[index];
+    });
+}
+
+/**
+ * DELETE /api/admin/disruptions/:disruptionId
+ */
+export function deleteDisruption(req: Request, res: Response): void {
+    commitChange(res, 200, data => {
+        const disruptions = data.disruptions || [];
+        const index = disruptions.findIndex(disruption => disruption.id === req.params.disruptionId);
+        if (index === -1) {
+            throw new AdminRequestError(404, `Disruption '${req.params.disruptionId}' not found`);
+        }
+        disruptions.splice(index, 1);
+        return { deleted: req.params.disruptionId };
+    });
+}
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Require the admin API key (ADMIN_API_KEY) as `Authorization: Bearer <key>` or `X-Admin-Key`
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    requireKey(req, res, next, {
+        expected: process.env.ADMIN_API_KEY,
+        envVar: 'ADMIN_API_KEY',
+        header: 'x-admin-key',
+        what: 'Admin API',
+        keyName: 'admin API key'
+    });
+}
+
+/**
+ * Require the vehicle reporting key (REALTIME_API_KEY) as `Authorization: Bearer <key>` or `X-Realtime-Key`
+ */
+export function requireRealtimeKey(req: Request, res: Response, next: NextFunction): void {
+    requireKey(req, res, next, {
+        expected: process.env.REALTIME_API_KEY,
+        envVar: 'REALTIME_API_KEY',
+        header: 'x-realtime-key',
+        what: 'Realtime ingestion',
+        keyName: 'realtime API key'
+    });
+}
+
+function requireKey(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    key: { expected: string | undefined; envVar: string; header: string; what: string; keyName: string }
+): void {
+    if (!key.expected) {
+        res.status(503).json({
+            error: `${key.what} disabled`,
+            message: `${key.envVar} is not configured on the server`
+        });
+        return;
+    }
+
+    const header = req.header('authorization') || '';
+    const provided = header.startsWith('Bearer ')
+        ? header.slice('Bearer '.length)
+        : req.header(key.header) || '';
+
+    // Constant-time comparison (lengths must match for timingSafeEqual)
+    const expectedBuffer = Buffer.from(key.expected);
+    const providedBuffer = Buffer.from(provided);
+    if (expectedBuffer.length !== providedBuffer.length || !crypto.timingSafeEqual(expectedBuffer, providedBuffer)) {
+        res.status(401).json({
+            error: 'Unauthorized',
+            message: `Missing or invalid ${key.keyName}`
+        });
+        return;
+    }
+
+    next();
+}
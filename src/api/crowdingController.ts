@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { crowdingModel } from '../core/crowding';
+import { liveUpdates } from '../core/liveUpdates';
+import { CrowdReport, CrowdObservation, CrowdEstimate } from '../core/types';
+
+const MAX_REPORTS_PER_REQUEST = 20;     // With the per-client rate limit, bounds what one client can add
+
+/**
+ * POST /api/crowding/reports - How full a bus is at a stop, from riders or drivers.
+ * Body: one report, an array of reports, or `{ "reports": [...] }`.
+ */
+export function submitReports(req: Request, res: Response): void {
+    try {
+        const body = req.body;
+        const reports: CrowdReport[] = Array.isArray(body) ? body
+            : Array.isArray(body?.reports) ? body.reports
+            : body && typeof body === 'object' && Object.keys(body).length > 0 ? [body]
+            : [];
+
+        if (reports.length === 0) {
+            res.status(400).json({
+                error: 'No reports',
+                message: 'Send { trip_id, stop_id, level } or { trip_id, stop_id, passengers }, an array of them, or { reports: [...] }'
+            });
+            return;
+        }
+
+        if (reports.length > MAX_REPORTS_PER_REQUEST) {
+            res.status(400).json({
+                error: 'Too many reports',
+                message: `At most ${MAX_REPORTS_PER_REQUEST} reports per request, got ${reports.length}`
+            });
+            return;
+        }
+
+        const accepted: { observation: CrowdObservation; estimate: CrowdEstimate | null }[] = [];
+        const rejected: { index: number; trip_id: string | null; reason: string }[] = [];
+
+        reports.forEach((report, index) => {
+            const result = crowdingModel.report(report);
+            if (result.ok) {
+                accepted.push({ observation: result.observation, estimate: result.estimate });
+            } else {
+                rejected.push({ index, trip_id: report?.trip_id ?? null, reason: result.reason });
+            }
+        });
+
+        if (accepted.length > 0) {
+            console.log(`🚌 Crowding: ${accepted.length} report(s) accepted, ${rejected.length} rejected`);
+            liveUpdates.refresh();
+        }
+
+        res.status(accepted.length > 0 ? 200 : 400).json({
+            accepted: accepted.length,
+            rejected,
+            reports: accepted
+        });
+    } catch (error: any) {
+        console.error('Error recording crowd reports:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Per-client (IP address) request limit over a fixed window, for public write endpoints
+ * that take no key. Answers 429 with `Retry-After` once a client is over the limit.
+ */
+export function rateLimit(limit: { max: number; windowMs: number; what: string }): RequestHandler {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const now = Date.now();
+        const client = req.ip || req.socket.remoteAddress || 'unknown';
+
+        // Drop finished windows so the map only holds recent clients
+        if (windows.size > 1000) {
+            windows.forEach((window, key) => {
+                if (now - window.startedAt >= limit.windowMs) windows.delete(key);
+            });
+        }
+
+        let window = windows.get(client);
+        if (!window || now - window.startedAt >= limit.windowMs) {
+            window = { startedAt: now, count: 0 };
+            windows.set(client, window);
+        }
+
+        window.count++;
+        if (window.count > limit.max) {
+            const retryAfterSec = Math.ceil((window.startedAt + limit.windowMs - now) / 1000);
+            res.setHeader('Retry-After', String(retryAfterSec));
+            res.status(429).json({
+                error: 'Too many requests',
+                message: `At most ${limit.max} ${limit.what} per ${limit.windowMs / 1000} seconds; retry in ${retryAfterSec} s`
+            });
+            return;
+        }
+
+        next();
+    };
+}
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { realtimeService } from '../core/realtime';
+import { liveUpdates } from '../core/liveUpdates';
+import { RealtimeUpdate, RealtimeTripStatus } from '../core/types';
+
+/**
+ * POST /api/realtime/positions - Ingest GPS pings and stop events from drivers' phones.
+ * Body: one update, an array of updates, or `{ "updates": [...] }`.
+ */
+export function ingestPositions(req: Request, res: Response): void {
+    try {
+        const body = req.body;
+        const updates: RealtimeUpdate[] = Array.isArray(body) ? body
+            : Array.isArray(body?.updates) ? body.updates
+            : body && typeof body === 'object' && Object.keys(body).length > 0 ? [body]
+            : [];
+
+        if (updates.length === 0) {
+            res.status(400).json({
+                error: 'No updates',
+                message: 'Send { trip_id, stop_id, event } or { trip_id, lat, lng }, an array of them, or { updates: [...] }'
+            });
+            return;
+        }
+
+        const trips: RealtimeTripStatus[] = [];
+        const rejected: { index: number; trip_id: string | null; reason: string }[] = [];
+
+        updates.forEach((update, index) => {
+            const result = realtimeService.ingest(update);
+            if (result.ok) {
+                trips.push(result.status);
+            } else {
+                rejected.push({ index, trip_id: update?.trip_id ?? null, reason: result.reason });
+            }
+        });
+
+        if (trips.length > 0) {
+            console.log(`📡 Realtime: ${trips.length} update(s) accepted, ${rejected.length} rejected`);
+            liveUpdates.refresh();
+        }
+
+        res.status(trips.length > 0 ? 200 : 400).json({
+            accepted: trips.length,
+            rejected,
+            trips
+        });
+    } catch (error: any) {
+        console.error('Error ingesting realtime updates:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/realtime/trips - Trips with a fresh live report today
+ */
+export function getRealtimeTrips(req: Request, res: Response): void {
+    try {
+        const trips = realtimeService.getActiveStatuses();
+        res.json({
+            count: trips.length,
+            trips
+        });
+    } catch (error: any) {
+        console.error('Error getting realtime trips:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
@@ -1,20 +1,47 @@
 import { Request, Response } from 'express';
 import { routePlanner } from '../core/planner';
 import { graph } from '../core/graph';
+import { nodeSearch } from '../core/nodeSearch';
+import { departureBoard } from '../core/departureBoard';
+import { calendarService } from '../core/calendar';
+import { tripDetails } from '../core/tripDetails';
+import { fareModel } from '../core/fares';
+import { realtimeService } from '../core/realtime';
+import { disruptionService } from '../core/disruptions';
+import { liveUpdates } from '../core/liveUpdates';
+import { crowdingModel } from '../core/crowding';
 import { distanceMatrixClient } from '../infra/distanceMatrixClient';
+import { gtfsConverter } from '../infra/gtfs';
+import { dataReloader } from '../infra/dataReloader';
+import { localSegmentProvider } from '../infra/localSegmentProvider';
+import { PlanPoint, FareType, RoutePreferences, parseTime, timeToMinutes } from '../core/types';
 
 /**
  * GET /api/routes - Plan a route
  */
 export async function planRoute(req: Request, res: Response): Promise<void> {
     try {
-        const { from, to, time, currentRoute } = req.query;
+        const { from, to, fromLat, fromLng, toLat, toLng, time, currentRoute, currentTrip, arriveBy, date, fareType } = req.query;
 
-        const result = await routePlanner.planRoute(
-            from as string,
-            to as string,
+        const origin: PlanPoint = from !== undefined
+            ? { nodeId: from as string }
+            : { lat: Number(fromLat), lng: Number(fromLng) };
+        const destination: PlanPoint = to !== undefined
+            ? { nodeId: to as string }
+            : { lat: Number(toLat), lng: Number(toLng) };
+
+        const result = await routePlanner.planBetweenPoints(
+            origin,
+            destination,
             time as string,
-            currentRoute as string | undefined
+            {
+                currentRoute: currentRoute as string | undefined,
+                currentTrip: currentTrip as string | undefined,
+                arriveBy: arriveBy === 'true',
+                date: date as string | undefined,
+                fareType: fareType as FareType | undefined,
+                preferences: parsePreferences(req)
+            }
         );
 
         res.json(result);
@@ -27,6 +54,26 @@ export async function planRoute(req: Request, res: Response): Promise<void> {
     }
 }
 
+/**
+ * Ranking preferences from the query (already checked by validateRouteQuery)
+ */
+function parsePreferences(req: Request): RoutePreferences {
+    const number = (name: string) => req.query[name] !== undefined ? Number(req.query[name]) : undefined;
+
+    return {
+        maxWalkMin: number('maxWalkMin'),
+        maxCost: number('maxCost'),
+        avoidLocal: req.query.avoidLocal === 'true',
+        minimizeTransfers: req.query.minimizeTransfers === 'true',
+        avoidCrowded: req.query.avoidCrowded === 'true',
+        weights: {
+            time: number('timeWeight'),
+            cost: number('costWeight'),
+            walk: number('walkWeight')
+        }
+    };
+}
+
 /**
  * GET /api/nodes - Get all available nodes
  */
@@ -38,7 +85,9 @@ export function getNodes(req: Request, res: Response): void {
             nodes: nodes.map(node => ({
                 id: node.id,
                 name: node.name,
-                type: node.type
+                type: node.type,
+                lat: node.lat ?? null,
+                lng: node.lng ?? null
             }))
         });
     } catch (error: any) {
@@ -50,6 +99,79 @@ export function getNodes(req: Request, res: Response): void {
     }
 }
 
+/**
+ * GET /api/nodes/search - Ranked fuzzy search over node names, IDs, addresses and aliases
+ */
+export function searchNodes(req: Request, res: Response): void {
+    try {
+        const query = req.query.q as string;
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : 10;
+        const results = nodeSearch.search(query, limit);
+
+        res.json({
+            query,
+            count: results.length,
+            results
+        });
+    } catch (error: any) {
+        console.error('Error searching nodes:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/stops/:nodeId/departures - Upcoming departures at a stop
+ */
+export function getStopDepartures(req: Request, res: Response): void {
+    try {
+        const { nodeId } = req.params;
+        const time = (req.query.time as string) || calendarService.currentTime();
+        const date = (req.query.date as string) || calendarService.today();
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : 10;
+
+        res.json({
+            stop: { id: nodeId, name: graph.getNode(nodeId)!.name },
+            date,
+            time,
+            departures: departureBoard.getDepartures(nodeId, time, date, limit)
+        });
+    } catch (error: any) {
+        console.error('Error getting departures:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/stops/:nodeId/arrivals - Upcoming arrivals at a stop
+ */
+export function getStopArrivals(req: Request, res: Response): void {
+    try {
+        const { nodeId } = req.params;
+        const time = (req.query.time as string) || calendarService.currentTime();
+        const date = (req.query.date as string) || calendarService.today();
+        const limit = req.query.limit !== undefined ? Number(req.query.limit) : 10;
+
+        res.json({
+            stop: { id: nodeId, name: graph.getNode(nodeId)!.name },
+            date,
+            time,
+            arrivals: departureBoard.getArrivals(nodeId, time, date, limit)
+        });
+    } catch (error: any) {
+        console.error('Error getting arrivals:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
 /**
  * GET /api/routes/list - Get all available bus routes
  */
@@ -73,6 +195,114 @@ export function getRoutes(req: Request, res: Response): void {
     }
 }
 
+/**
+ * GET /api/routes/:routeId - Route with every trip's stop timeline on `date` (default today)
+ */
+export function getRouteDetail(req: Request, res: Response): void {
+    try {
+        const route = graph.getRoute(req.params.routeId);
+        if (!route) {
+            res.status(404).json({
+                error: 'Route not found',
+                message: `Route '${req.params.routeId}' not found`,
+                hint: 'Use GET /api/routes/list to see available routes'
+            });
+            return;
+        }
+
+        res.json(tripDetails.describeRoute(route, req.query.date as string | undefined));
+    } catch (error: any) {
+        console.error('Error getting route detail:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/trips/:tripId - One trip's stop timeline on `date` (default today)
+ */
+export function getTripDetail(req: Request, res: Response): void {
+    try {
+        const trip = graph.getTrip(req.params.tripId);
+        const route = trip && tripDetails.findRouteOfTrip(trip.trip_id);
+        if (!trip || !route) {
+            res.status(404).json({
+                error: 'Trip not found',
+                message: `Trip '${req.params.tripId}' not found`,
+                hint: 'Use GET /api/routes/:routeId to see a route\'s trips'
+            });
+            return;
+        }
+
+        res.json(tripDetails.describeTrip(trip, route, req.query.date as string | undefined));
+    } catch (error: any) {
+        console.error('Error getting trip detail:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/fares - Local transport fare model (tariffs per vehicle, night window)
+ */
+export function getFares(req: Request, res: Response): void {
+    try {
+        res.json(fareModel.getConfig());
+    } catch (error: any) {
+        console.error('Error getting fares:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/alerts - Disruptions in effect at a moment (default now)
+ */
+export function getAlerts(req: Request, res: Response): void {
+    try {
+        const time = (req.query.time as string) || calendarService.currentTime();
+        const date = (req.query.date as string) || calendarService.today();
+        const alerts = disruptionService.activeAt(date, timeToMinutes(parseTime(time)));
+
+        res.json({
+            date,
+            time,
+            count: alerts.length,
+            alerts
+        });
+    } catch (error: any) {
+        console.error('Error getting alerts:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * GET /api/gtfs.zip - Download the network as a GTFS static feed
+ */
+export function getGtfsFeed(req: Request, res: Response): void {
+    try {
+        const feed = gtfsConverter.exportFeed();
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', 'attachment; filename="gtfs.zip"');
+        res.send(feed);
+    } catch (error: any) {
+        console.error('Error exporting GTFS feed:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
 /**
  * GET /api/health - Health check and system status
  */
@@ -81,13 +311,19 @@ export function healthCheck(req: Request, res: Response): void {
         const stats = distanceMatrixClient.getStats();
         const nodes = graph.getAllNodes();
         const routes = graph.getAllRoutes();
+        const data = dataReloader.getStatus();
+        const nowMin = timeToMinutes(parseTime(calendarService.currentTime()));
 
         res.json({
             status: 'healthy',
             timestamp: new Date().toISOString(),
             graph: {
                 nodes: nodes.length,
-                routes: routes.length
+                routes: routes.length,
+                dataVersion: data.version,
+                loadedAt: data.loadedAt,
+                reloads: data.reloads,
+                lastReloadError: data.lastError
             },
             distanceMatrix: {
                 available: !!process.env.GOOGLE_DM_API_KEY,
@@ -102,7 +338,18 @@ export function healthCheck(req: Request, res: Response): void {
                         ? `${Math.round(stats.cacheHits / (stats.cacheHits + stats.cacheMisses) * 100)}%`
                         : 'N/A'
                 }
-            }
+            },
+            localSegmentProviders: localSegmentProvider.describe(),
+            realtime: {
+                ingestion: !!process.env.REALTIME_API_KEY,
+                activeTrips: realtimeService.getActiveStatuses().length
+            },
+            disruptions: {
+                total: graph.getAllDisruptions().length,
+                active: disruptionService.activeAt(calendarService.today(), nowMin).length
+            },
+            stream: liveUpdates.getStats(),
+            crowding: crowdingModel.getStats()
         });
     } catch (error: any) {
         console.error('Error in health check:', error);
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { liveUpdates } from '../core/liveUpdates';
+import { WebSocket } from 'ws';
+import { StreamTopic, FareType } from '../core/types';
+
+const HEARTBEAT_MS = 25000;     // Keeps proxies and mobile networks from dropping idle connections
+
+/**
+ * Values of a repeatable query parameter (`trip=a&trip=b` or `trip=a,b`)
+ */
+function listParam(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+    return values.flatMap(item => String(item).split(',')).filter(item => item.length > 0);
+}
+
+function topicsFromQuery(query: Request['query']): StreamTopic[] {
+    const topics: StreamTopic[] = [
+        ...listParam(query.trip).map(trip_id => ({ type: 'trip' as const, trip_id })),
+        ...listParam(query.stop).map(stop_id => ({ type: 'stop' as const, stop_id }))
+    ];
+
+    if (query.from !== undefined || query.to !== undefined) {
+        topics.push({
+            type: 'journey',
+            from: query.from as string,
+            to: query.to as string,
+            time: query.time as string | undefined,
+            date: query.date as string | undefined,
+            arriveBy: query.arriveBy === 'true',
+            fareType: query.fareType as FareType | undefined
+        });
+    }
+
+    return topics;
+}
+
+/**
+ * GET /api/stream - Server-Sent Events for trips (`trip`), stop departures (`stop`)
+ * and a saved journey (`from`, `to`, optional `time`, `date`, `arriveBy`, `fareType`)
+ */
+export function openStream(req: Request, res: Response): void {
+    try {
+        const topics = topicsFromQuery(req.query);
+        if (topics.length === 0) {
+            res.status(400).json({
+                error: 'No topics',
+                message: 'Subscribe with trip=TRIP_ID, stop=NODE_ID and/or from=NODE_ID&to=NODE_ID',
+                example: '/api/stream?trip=bus1_0825&stop=TILAGOR'
+            });
+            return;
+        }
+
+        // Everything subscribe() could reject is checked before the stream starts
+        const problems = liveUpdates.checkTopics(topics);
+        if (problems.length > 0) {
+            res.status(400).json({
+                error: 'Invalid topic',
+                message: problems.join('; ')
+            });
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write('retry: 5000\n\n');
+
+        const id = liveUpdates.connect(event => {
+            res.write(`event: ${event.event}\ndata: ${JSON.stringify({ topic: event.topic, data: event.data })}\n\n`);
+        });
+        const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+        res.on('close', () => {
+            clearInterval(heartbeat);
+            liveUpdates.disconnect(id);
+        });
+
+        topics.forEach(topic => liveUpdates.subscribe(id, topic));
+        console.log(`📡 Stream opened: ${topics.length} topic(s)`);
+    } catch (error: any) {
+        console.error('Error opening stream:', error);
+        // Headers are gone once the stream has started: report it as an event instead
+        if (res.headersSent) {
+            res.write(`event: error\ndata: ${JSON.stringify({ message: error.message })}\n\n`);
+            res.end();
+            return;
+        }
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message
+        });
+    }
+}
+
+/**
+ * WebSocket /api/stream/ws - Same events as the SSE stream. Clients send
+ * `{ "action": "subscribe", "topic": {...} }` or `{ "action": "unsubscribe", "topic": "KEY" }`.
+ */
+export function openWebSocket(connection: WebSocket, req: IncomingMessage): void {
+    const reply = (message: object) => {
+        if (connection.readyState === WebSocket.OPEN) {
+            connection.send(JSON.stringify(message));
+        }
+    };
+    const id = liveUpdates.connect(event => reply(event));
+    const heartbeat = setInterval(() => connection.ping(), HEARTBEAT_MS);
+
+    connection.on('message', (data, isBinary) => {
+        if (isBinary) {
+            connection.close(1003, 'Only text messages are supported');
+            return;
+        }
+
+        let message: { action?: string; topic?: any };
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            reply({ event: 'error', message: 'Messages must be JSON' });
+            return;
+        }
+
+        try {
+            if (message.action === 'subscribe') {
+                const key = liveUpdates.subscribe(id, message.topic);
+                reply({ event: 'subscribed', topic: key });
+            } else if (message.action === 'unsubscribe') {
+                const removed = liveUpdates.unsubscribe(id, String(message.topic));
+                reply(removed
+                    ? { event: 'unsubscribed', topic: message.topic }
+                    : { event: 'error', message: `Not subscribed to '${message.topic}'` });
+            } else {
+                reply({ event: 'error', message: `action must be 'subscribe' or 'unsubscribe'` });
+            }
+        } catch (error: any) {
+            reply({ event: 'error', message: error.message });
+        }
+    });
+
+    connection.on('close', () => {
+        clearInterval(heartbeat);
+        liveUpdates.disconnect(id);
+    });
+
+    console.log(`📡 WebSocket opened from ${req.socket.remoteAddress}`);
+}
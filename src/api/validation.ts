@@ -1,52 +1,357 @@
 import { Request, Response, NextFunction } from 'express';
 import { graph } from '../core/graph';
+import { accessPlanner } from '../core/access';
+import { calendarService } from '../core/calendar';
+import { disruptionService } from '../core/disruptions';
+
+const TIME_REGEX = /^([0-3]?[0-9]|4[0-7]):[0-5][0-9]$/;    // Service-day time; 24:00 and later are after midnight
+
+/**
+ * A real calendar date in YYYY-MM-DD format
+ */
+function isValidDate(dateStr: string): boolean {
+    const parsed = new Date(`${dateStr}T00:00:00Z`);
+    return /^\d{4}-\d{2}-\d{2}$/.test(dateStr) && !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === dateStr;
+}
 
 /**
  * Validate route query parameters
  */
 export function validateRouteQuery(req: Request, res: Response, next: NextFunction): void {
-    const { from, to, time } = req.query;
+    const { from, to, time, arriveBy, date } = req.query;
+
+    // Each end is a node ID or a fromLat/fromLng (toLat/toLng) position
+    for (const end of ['from', 'to'] as const) {
+        const nodeId = req.query[end];
+        const lat = req.query[`${end}Lat`];
+        const lng = req.query[`${end}Lng`];
+        const label = end === 'from' ? 'origin' : 'destination';
+
+        if (nodeId !== undefined && (lat !== undefined || lng !== undefined)) {
+            res.status(400).json({
+                error: `Ambiguous ${label}`,
+                message: `Use either '${end}' or '${end}Lat'/'${end}Lng', not both`
+            });
+            return;
+        }
+
+        if (nodeId !== undefined) {
+            // Validate node IDs exist
+            if (!graph.hasNode(nodeId as string)) {
+                res.status(400).json({
+                    error: `Invalid ${label} node`,
+                    message: `Node '${nodeId}' not found`,
+                    hint: 'Use GET /api/nodes to see available nodes'
+                });
+                return;
+            }
+            continue;
+        }
+
+        if (lat === undefined && lng === undefined) {
+            res.status(400).json({
+                error: 'Missing required parameters',
+                required: ['from (or fromLat/fromLng)', 'to (or toLat/toLng)', 'time'],
+                received: { from, to, time }
+            });
+            return;
+        }
+
+        const latNum = Number(lat);
+        const lngNum = Number(lng);
+        if (lat === undefined || lng === undefined || lat === '' || lng === '' ||
+            isNaN(latNum) || isNaN(lngNum) || Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) {
+            res.status(400).json({
+                error: `Invalid ${label} coordinates`,
+                message: `'${end}Lat' and '${end}Lng' must both be valid decimal degrees`,
+                example: `${end}Lat=24.8949&${end}Lng=91.8997`
+            });
+            return;
+        }
+
+        if (accessPlanner.nearestNodes(latNum, lngNum).length === 0) {
+            res.status(400).json({
+                error: `No stop near ${label}`,
+                message: `No geocoded node within reach of ${latNum},${lngNum}`,
+                hint: 'Use GET /api/nodes to see node coordinates'
+            });
+            return;
+        }
+    }
 
     // Check required parameters
-    if (!from || !to || !time) {
+    if (!time) {
         res.status(400).json({
             error: 'Missing required parameters',
-            required: ['from', 'to', 'time'],
+            required: ['time'],
             received: { from, to, time }
         });
         return;
     }
 
-    // Validate node IDs exist
-    if (!graph.hasNode(from as string)) {
+    // Validate time format (HH:MM)
+    const timeStr = time as string;
+    if (!TIME_REGEX.test(timeStr)) {
         res.status(400).json({
-            error: 'Invalid origin node',
-            message: `Node '${from}' not found`,
-            hint: 'Use GET /api/nodes to see available nodes'
+            error: 'Invalid time format',
+            message: `Time '${timeStr}' is not in HH:MM format`,
+            example: '08:30'
         });
         return;
     }
 
-    if (!graph.hasNode(to as string)) {
+    // Validate arrive-by flag
+    if (arriveBy !== undefined && arriveBy !== 'true' && arriveBy !== 'false') {
         res.status(400).json({
-            error: 'Invalid destination node',
-            message: `Node '${to}' not found`,
-            hint: 'Use GET /api/nodes to see available nodes'
+            error: 'Invalid arriveBy value',
+            message: `arriveBy must be 'true' or 'false', got '${arriveBy}'`,
+            example: 'true'
         });
         return;
     }
 
-    // Validate time format (HH:MM)
-    const timeStr = time as string;
-    const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
-    if (!timeRegex.test(timeStr)) {
+    // Validate service date (YYYY-MM-DD)
+    if (date !== undefined) {
+        const dateStr = date as string;
+        if (!isValidDate(dateStr)) {
+            res.status(400).json({
+                error: 'Invalid date format',
+                message: `Date '${dateStr}' is not a valid YYYY-MM-DD date`,
+                example: '2026-03-15'
+            });
+            return;
+        }
+    }
+
+    // Validate fare type
+    const { fareType } = req.query;
+    if (fareType !== undefined && fareType !== 'shared' && fareType !== 'reserved') {
+        res.status(400).json({
+            error: 'Invalid fareType value',
+            message: `fareType must be 'shared' or 'reserved', got '${fareType}'`,
+            example: 'reserved'
+        });
+        return;
+    }
+
+    // Validate ranking preferences
+    for (const name of ['maxWalkMin', 'maxCost', 'timeWeight', 'costWeight', 'walkWeight']) {
+        const value = req.query[name];
+        if (value !== undefined && (value === '' || isNaN(Number(value)) || Number(value) < 0)) {
+            res.status(400).json({
+                error: `Invalid ${name} value`,
+                message: `${name} must be a non-negative number, got '${value}'`
+            });
+            return;
+        }
+    }
+    for (const name of ['avoidLocal', 'minimizeTransfers', 'avoidCrowded']) {
+        const value = req.query[name];
+        if (value !== undefined && value !== 'true' && value !== 'false') {
+            res.status(400).json({
+                error: `Invalid ${name} value`,
+                message: `${name} must be 'true' or 'false', got '${value}'`
+            });
+            return;
+        }
+    }
+
+    // On-board replanning: the rider is on a bus whose last passed stop is 'from'
+    const { currentRoute, currentTrip } = req.query;
+    if (currentRoute !== undefined || currentTrip !== undefined) {
+        // Both ends must be nodes: planning from coordinates has no bus position to start from
+        if (from === undefined || to === undefined || arriveBy === 'true') {
+            res.status(400).json({
+                error: 'Invalid on-board request',
+                message: "currentRoute/currentTrip need 'from' (the last stop passed) and 'to' as node IDs, not coordinates, and cannot be combined with arriveBy"
+            });
+            return;
+        }
+
+        const route = currentRoute !== undefined
+            ? graph.getAllRoutes().find(r => r.route_id === currentRoute)
+            : undefined;
+        if (currentRoute !== undefined && !route) {
+            res.status(400).json({
+                error: 'Invalid current route',
+                message: `Route '${currentRoute}' not found`,
+                hint: 'Use GET /api/routes/list to see available routes'
+            });
+            return;
+        }
+
+        const trip = currentTrip !== undefined ? graph.getTrip(currentTrip as string) : undefined;
+        if (currentTrip !== undefined && (!trip || (route && !route.trips.includes(trip)))) {
+            res.status(400).json({
+                error: 'Invalid current trip',
+                message: route
+                    ? `Trip '${currentTrip}' not found on route '${currentRoute}'`
+                    : `Trip '${currentTrip}' not found`
+            });
+            return;
+        }
+
+        const servesFrom = trip
+            ? trip.stops.includes(from as string)
+            : route!.trips.some(t => t.stops.includes(from as string));
+        if (!servesFrom) {
+            res.status(400).json({
+                error: 'Invalid on-board request',
+                message: `'${from}' is not a stop of ${trip ? `trip '${currentTrip}'` : `route '${currentRoute}'`}`
+            });
+            return;
+        }
+
+        // Only trips that run on the service date and are not cancelled can be ridden
+        const serviceDate = (date as string | undefined) || calendarService.today();
+        const activeTrips = disruptionService.getActiveRoutes(serviceDate)
+            .filter(r => !route || r.route_id === route.route_id)
+            .flatMap(r => r.trips);
+        const running = trip
+            ? activeTrips.some(t => t.trip_id === trip.trip_id)
+            : activeTrips.some(t => t.stops.includes(from as string));
+        if (!running) {
+            res.status(400).json({
+                error: 'Invalid on-board request',
+                message: trip
+                    ? `Trip '${currentTrip}' does not run on ${serviceDate} or is cancelled`
+                    : `No trip of route '${currentRoute}' through '${from}' runs on ${serviceDate}`
+            });
+            return;
+        }
+    }
+
+    next();
+}
+
+/**
+ * Validate node search query parameters
+ */
+export function validateSearchQuery(req: Request, res: Response, next: NextFunction): void {
+    const { q, limit } = req.query;
+
+    if (typeof q !== 'string' || q.trim().length === 0) {
+        res.status(400).json({
+            error: 'Missing required parameters',
+            required: ['q'],
+            received: { q }
+        });
+        return;
+    }
+
+    if (q.length > 100) {
+        res.status(400).json({
+            error: 'Query too long',
+            message: 'q must be at most 100 characters'
+        });
+        return;
+    }
+
+    if (limit !== undefined) {
+        const limitNum = Number(limit);
+        if (!Number.isInteger(limitNum) || limitNum < 1 || limitNum > 50) {
+            res.status(400).json({
+                error: 'Invalid limit',
+                message: `limit must be an integer between 1 and 50, got '${limit}'`,
+                example: '10'
+            });
+            return;
+        }
+    }
+
+    next();
+}
+
+/**
+ * Validate stop departure/arrival board parameters
+ */
+export function validateBoardQuery(req: Request, res: Response, next: NextFunction): void {
+    const { nodeId } = req.params;
+    const { time, date, limit } = req.query;
+
+    if (!graph.hasNode(nodeId)) {
+        res.status(404).json({
+            error: 'Stop not found',
+            message: `Node '${nodeId}' not found`,
+            hint: 'Use GET /api/nodes/search?q= to find a stop'
+        });
+        return;
+    }
+
+    if (time !== undefined && !TIME_REGEX.test(time as string)) {
         res.status(400).json({
             error: 'Invalid time format',
-            message: `Time '${timeStr}' is not in HH:MM format`,
+            message: `Time '${time}' is not in HH:MM format`,
+            example: '08:30'
+        });
+        return;
+    }
+
+    if (date !== undefined && !isValidDate(date as string)) {
+        res.status(400).json({
+            error: 'Invalid date format',
+            message: `Date '${date}' is not a valid YYYY-MM-DD date`,
+            example: '2026-03-15'
+        });
+        return;
+    }
+
+    if (limit !== undefined) {
+        const limitNum = Number(limit);
+        if (!Number.isInteger(limitNum) || limitNum < 1 || limitNum > 50) {
+            res.status(400).json({
+                error: 'Invalid limit',
+                message: `limit must be an integer between 1 and 50, got '${limit}'`,
+                example: '10'
+            });
+            return;
+        }
+    }
+
+    next();
+}
+
+/**
+ * Validate the optional date of the route and trip detail queries
+ */
+export function validateDetailQuery(req: Request, res: Response, next: NextFunction): void {
+    const { date } = req.query;
+
+    if (date !== undefined && !isValidDate(date as string)) {
+        res.status(400).json({
+            error: 'Invalid date format',
+            message: `Date '${date}' is not a valid YYYY-MM-DD date`,
+            example: '2026-03-15'
+        });
+        return;
+    }
+
+    next();
+}
+
+/**
+ * Validate the optional date and time of the alerts query
+ */
+export function validateAlertsQuery(req: Request, res: Response, next: NextFunction): void {
+    const { time, date } = req.query;
+
+    if (time !== undefined && !TIME_REGEX.test(time as string)) {
+        res.status(400).json({
+            error: 'Invalid time format',
+            message: `Time '${time}' is not in HH:MM format`,
             example: '08:30'
         });
         return;
     }
 
+    if (date !== undefined && !isValidDate(date as string)) {
+        res.status(400).json({
+            error: 'Invalid date format',
+            message: `Date '${date}' is not a valid YYYY-MM-DD date`,
+            example: '2026-03-15'
+        });
+        return;
+    }
+
     next();
 }
@@ -0,0 +1,108 @@
+import { graph } from './graph';
+import { haversineEstimator } from '../infra/haversineEstimator';
+import { PlanPoint, RouteLeg } from './types';
+
+const SNAP_CANDIDATES = 3;          // Nearest nodes tried per GPS point
+const SNAP_MAX_METERS = 5000;       // Ignore nodes farther than this (straight line)
+const WALK_MAX_METERS = 1000;       // Longer access/egress legs are taken by CNG/rickshaw
+
+/**
+ * A network node a GPS point can be connected to, with the leg that connects it
+ * (no leg when the point already is that node)
+ */
+export interface SnapCandidate {
+    nodeId: string;
+    leg: RouteLeg | null;
+}
+
+export class AccessPlanner {
+    /**
+     * Display label for a plan point ("TILAGOR" or "24.8949,91.8997")
+     */
+    public label(point: PlanPoint): string {
+        return 'nodeId' in point ? point.nodeId : `${point.lat},${point.lng}`;
+    }
+
+    /**
+     * Coordinates of a plan point, if known
+     */
+    public coordinates(point: PlanPoint): { lat: number; lng: number } | null {
+        if (!('nodeId' in point)) return point;
+
+        const node = graph.getNode(point.nodeId);
+        return node?.lat !== undefined && node?.lng !== undefined ? { lat: node.lat, lng: node.lng } : null;
+    }
+
+    /**
+     * Nearest geocoded nodes to a position, closest first
+     */
+    public nearestNodes(
+        lat: number,
+        lng: number,
+        k: number = SNAP_CANDIDATES,
+        maxMeters: number = SNAP_MAX_METERS
+    ): { nodeId: string; meters: number }[] {
+        return graph.getAllNodes()
+            .filter(node => node.lat !== undefined && node.lng !== undefined)
+            .map(node => ({
+                nodeId: node.id,
+                meters: haversineEstimator.haversineMeters(lat, lng, node.lat!, node.lng!)
+            }))
+            .filter(candidate => candidate.meters <= maxMeters)
+            .sort((a, b) => a.meters - b.meters)
+            .slice(0, k);
+    }
+
+    /**
+     * Nodes to start (access) or finish (egress) the network part of the journey at
+     */
+    public candidates(point: PlanPoint, role: 'access' | 'egress'): SnapCandidate[] {
+        if ('nodeId' in point) {
+            return [{ nodeId: point.nodeId, leg: null }];
+        }
+
+        return this.nearestNodes(point.lat, point.lng).map(({ nodeId }) => {
+            const node = graph.getNode(nodeId)!;
+            const leg = role === 'access'
+                ? this.connectingLeg(this.label(point), point, nodeId, { lat: node.lat!, lng: node.lng! })
+                : this.connectingLeg(nodeId, { lat: node.lat!, lng: node.lng! }, this.label(point), point);
+            leg.role = role;
+            return { nodeId, leg };
+        });
+    }
+
+    /**
+     * Estimated walk (short) or local ride (long) between two positions; times are left to the caller
+     */
+    public connectingLeg(
+        from: string,
+        fromPosition: { lat: number; lng: number },
+        to: string,
+        toPosition: { lat: number; lng: number }
+    ): RouteLeg {
+        const walk = haversineEstimator.estimate(fromPosition.lat, fromPosition.lng, toPosition.lat, toPosition.lng, 'walking');
+        const useWalk = walk.distanceMeters <= WALK_MAX_METERS;
+        const segment = useWalk
+            ? walk
+            : haversineEstimator.estimate(fromPosition.lat, fromPosition.lng, toPosition.lat, toPosition.lng, 'driving');
+
+        return {
+            mode: useWalk ? 'walk' : 'local',
+            submode: useWalk ? 'walking' : 'driving',
+            from,
+            to,
+            durationMin: Math.max(1, Math.round(segment.durationSeconds / 60)),
+            distanceMeters: segment.distanceMeters,
+            cost: 0, // Priced from the distance by fareModel.apply
+            source: 'estimate',
+            estimated: true,
+            geometry: {
+                type: 'LineString',
+                coordinates: [[fromPosition.lng, fromPosition.lat], [toPosition.lng, toPosition.lat]]
+            }
+        };
+    }
+}
+
+// Export singleton instance
+export const accessPlanner = new AccessPlanner();
@@ -0,0 +1,114 @@
+import { graph } from './graph';
+import { timetable } from './timetable';
+import { Route, Trip, Weekday, ServiceDay, addDays, clockTime, serviceClock } from './types';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export class CalendarService {
+    /**
+     * How far past the request (before it when arriving by) other service days are searched
+     */
+    public readonly rolloverHorizonMin = 12 * 60;
+
+    /**
+     * Today's (or `now`'s) date (service timezone) as YYYY-MM-DD
+     */
+    public today(now: Date = new Date()): string {
+        return serviceClock(now).date;
+    }
+
+    /**
+     * Current (or `now`'s) time (service timezone) as HH:MM
+     */
+    public currentTime(now: Date = new Date()): string {
+        return clockTime(Math.floor(serviceClock(now).minute));
+    }
+
+    /**
+     * Check whether a service runs on a date (YYYY-MM-DD).
+     * Exception dates win over the weekday pattern and date range.
+     */
+    public isServiceActive(serviceId: string, date: string): boolean {
+        const calendar = graph.getCalendar(serviceId);
+        if (!calendar) {
+            return false;
+        }
+
+        if (calendar.removed_dates?.includes(date)) return false;
+        if (calendar.added_dates?.includes(date)) return true;
+
+        if (calendar.start_date && date < calendar.start_date) return false;
+        if (calendar.end_date && date > calendar.end_date) return false;
+
+        const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+        return calendar.days.includes(weekday);
+    }
+
+    /**
+     * Trips without a service_id run every day
+     */
+    public isTripActive(trip: Trip, date: string): boolean {
+        return !trip.service_id || this.isServiceActive(trip.service_id, date);
+    }
+
+    /**
+     * Routes restricted to the trips that run on a date (routes with no trips are dropped)
+     */
+    public getActiveRoutes(date: string): Route[] {
+        return graph.getAllRoutes()
+            .map(route => ({ ...route, trips: route.trips.filter(trip => this.isTripActive(trip, date)) }))
+            .filter(route => route.trips.length > 0);
+    }
+
+    /**
+     * The service day an instant belongs to for a trip, with the instant counted in that
+     * day's minutes: a trip still running after midnight belongs to the day before (00:10
+     * is its 24:10). Picks the day on which the trip runs closest to the instant, or null
+     * if it runs on none of today, yesterday and tomorrow.
+     */
+    public tripServiceDay(trip: Trip, at: Date): { date: string; minute: number } | null {
+        const clock = serviceClock(at);
+        const stopTimes = timetable.getStopTimes(trip);
+        const startMin = stopTimes[0].departureMin;
+        const endMin = stopTimes[stopTimes.length - 1].arrivalMin;
+
+        let best: { date: string; minute: number } | null = null;
+        let bestGap = Infinity;
+
+        for (const shift of [0, -1, 1]) {
+            const date = addDays(clock.date, shift);
+            if (!this.isTripActive(trip, date)) continue;
+
+            const minute = clock.minute - shift * 1440;
+            const gap = Math.max(startMin - minute, minute - endMin, 0);
+            if (gap < bestGap) {
+                bestGap = gap;
+                best = { date, minute };
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Service days with buses running within rolloverHorizonMin after `minute` of
+     * `date` (before it when arriving by). `date` itself always counts; the day before
+     * adds trips still running past midnight, the day after the next morning's buses.
+     */
+    public serviceDays(date: string, minute: number, arriveBy: boolean = false): ServiceDay[] {
+        const windowStart = arriveBy ? minute - this.rolloverHorizonMin : minute;
+        const windowEnd = arriveBy ? minute : minute + this.rolloverHorizonMin;
+
+        return [-1, 0, 1]
+            .map(shift => ({ date: addDays(date, shift), offsetMin: shift * 1440 }))
+            .filter(day => day.offsetMin === 0 || this.getActiveRoutes(day.date).some(route =>
+                route.trips.some(trip => {
+                    const stopTimes = timetable.getStopTimes(trip);
+                    return stopTimes[0].departureMin + day.offsetMin <= windowEnd &&
+                        stopTimes[stopTimes.length - 1].arrivalMin + day.offsetMin >= windowStart;
+                })));
+    }
+}
+
+// Export singleton instance
+export const calendarService = new CalendarService();
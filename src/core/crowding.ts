@@ -0,0 +1,200 @@
+import { graph } from './graph';
+import { calendarService } from './calendar';
+import { crowdReportStore } from '../infra/crowdReportStore';
+import {
+    Trip,
+    RouteOption,
+    CrowdLevel,
+    CrowdReport,
+    CrowdObservation,
+    CrowdEstimate
+} from './types';
+
+const LEVEL_LOAD: Record<CrowdLevel, number> = { low: 0.25, medium: 0.6, high: 0.85, full: 1 };
+const HALF_LIFE_DAYS = 14;          // A report's weight halves every two weeks
+const SAME_WEEKDAY_WEIGHT = 2;      // Sunday crowds look like other Sundays
+const SAME_DAY_WEIGHT = 10;         // Today's reports on the trip outweigh its history
+const DRIVER_WEIGHT = 2;            // Drivers see the whole bus
+const MAX_AGE_DAYS = 90;
+const MAX_OBSERVATIONS = 5000;
+const MAX_REPORT_AGE_MIN = 24 * 60; // Reports must be about today or yesterday
+const MAX_CLOCK_SKEW_MIN = 5;
+const CROWDED_FROM = 0.75;          // Load factor where avoiding crowds starts to cost
+const FULL_BUS_PENALTY_MIN = 20;    // Minutes a full bus is worth avoiding
+
+export type CrowdReportResult =
+    | { ok: true; observation: CrowdObservation; estimate: CrowdEstimate | null }
+    | { ok: false; reason: string };
+
+export class CrowdingModel {
+    private observations: CrowdObservation[] | null = null;
+
+    /**
+     * Record one crowd report and return the trip's updated estimate at that stop
+     */
+    public report(report: CrowdReport, now: Date = new Date()): CrowdReportResult {
+        const trip = report?.trip_id ? graph.getTrip(report.trip_id) : undefined;
+        if (!trip) {
+            return { ok: false, reason: `Trip '${report?.trip_id}' not found` };
+        }
+        const stopIndex = trip.stops.indexOf(report.stop_id);
+        if (stopIndex === -1) {
+            return { ok: false, reason: `Stop '${report.stop_id}' is not on trip '${trip.trip_id}'` };
+        }
+
+        const at = report.timestamp !== undefined ? new Date(report.timestamp) : now;
+        if (isNaN(at.getTime())) {
+            return { ok: false, reason: `Invalid timestamp '${report.timestamp}'` };
+        }
+        const ageMin = (now.getTime() - at.getTime()) / 60000;
+        if (ageMin > MAX_REPORT_AGE_MIN || ageMin < -MAX_CLOCK_SKEW_MIN) {
+            return { ok: false, reason: `Timestamp ${at.toISOString()} is too far from the server clock` };
+        }
+
+        const source = report.source ?? 'rider';
+        if (source !== 'rider' && source !== 'driver') {
+            return { ok: false, reason: `source must be 'rider' or 'driver'` };
+        }
+
+        let loadFactor: number;
+        if (report.level !== undefined) {
+            // Own keys only: `in` would also accept inherited names like 'toString'
+            if (!Object.prototype.hasOwnProperty.call(LEVEL_LOAD, report.level)) {
+                return { ok: false, reason: `level must be one of ${Object.keys(LEVEL_LOAD).join(', ')}` };
+            }
+            loadFactor = LEVEL_LOAD[report.level];
+        } else if (typeof report.passengers === 'number' && report.passengers >= 0) {
+            if (!trip.capacity) {
+                return { ok: false, reason: `Trip '${trip.trip_id}' has no capacity; report a level instead` };
+            }
+            loadFactor = Math.min(1, report.passengers / trip.capacity);
+        } else {
+            return { ok: false, reason: 'A report needs a level or a passenger count' };
+        }
+
+        const observation: CrowdObservation = {
+            trip_id: trip.trip_id,
+            stop_id: report.stop_id,
+            // Overnight trips file after-midnight reports under their own service day
+            date: calendarService.tripServiceDay(trip, at)?.date ?? calendarService.today(at),
+            loadFactor: Math.round(loadFactor * 100) / 100,
+            source,
+            reportedAt: at.toISOString()
+        };
+
+        const observations = this.getObservations();
+        observations.push(observation);
+        this.prune(observations, now);
+        crowdReportStore.save(observations);
+
+        return { ok: true, observation, estimate: this.estimate(trip, stopIndex, observation.date) };
+    }
+
+    /**
+     * Expected load of a trip leaving its `stopIndex`th stop on a date: a weighted
+     * average of the reports at that stop (recent, same-weekday, same-day and driver
+     * reports count more). Without reports there, the nearest earlier stop with
+     * reports stands in. Null if nobody has reported on the trip up to that stop.
+     */
+    public estimate(trip: Trip, stopIndex: number, date: string): CrowdEstimate | null {
+        const tripObservations = this.getObservations().filter(observation => observation.trip_id === trip.trip_id);
+        if (tripObservations.length === 0) return null;
+
+        for (let i = stopIndex; i >= 0; i--) {
+            const atStop = tripObservations.filter(observation => observation.stop_id === trip.stops[i]);
+            if (atStop.length === 0) continue;
+
+            let weightSum = 0;
+            let loadSum = 0;
+            atStop.forEach(observation => {
+                const weight = this.weight(observation, date);
+                weightSum += weight;
+                loadSum += weight * observation.loadFactor;
+            });
+
+            const loadFactor = Math.round(loadSum / weightSum * 100) / 100;
+            return {
+                level: this.level(loadFactor),
+                loadFactor,
+                capacity: trip.capacity ?? null,
+                expectedRiders: trip.capacity ? Math.round(loadFactor * trip.capacity) : null,
+                reports: atStop.length,
+                fromStop: trip.stops[i]
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Put the expected load at the boarding stop on every bus leg (on the leg's own
+     * service date, which differs from `date` for overnight journeys)
+     */
+    public attach(options: RouteOption[], date: string): void {
+        options.forEach(option => {
+            option.legs.forEach(leg => {
+                if (leg.mode !== 'bus' || !leg.trip_id) return;
+
+                const trip = graph.getTrip(leg.trip_id);
+                const boardIndex = trip ? trip.stops.indexOf(leg.from) : -1;
+                const load = boardIndex !== -1 ? this.estimate(trip!, boardIndex, leg.serviceDate || date) : null;
+                if (load) {
+                    leg.load = load;
+                }
+            });
+        });
+    }
+
+    /**
+     * Minutes a rider avoiding crowds would give up to skip this load,
+     * growing linearly from CROWDED_FROM to a full bus
+     */
+    public penaltyMin(load: CrowdEstimate | null | undefined): number {
+        const overload = Math.max(0, ((load?.loadFactor ?? 0) - CROWDED_FROM) / (1 - CROWDED_FROM));
+        return overload * FULL_BUS_PENALTY_MIN;
+    }
+
+    public getStats(): { observations: number } {
+        return { observations: this.getObservations().length };
+    }
+
+    private weight(observation: CrowdObservation, date: string): number {
+        const ageDays = Math.abs(Date.parse(`${date}T00:00:00Z`) - Date.parse(`${observation.date}T00:00:00Z`)) / 86400000;
+        const sameWeekday = ageDays % 7 === 0;
+
+        return Math.pow(0.5, ageDays / HALF_LIFE_DAYS) *
+            (ageDays === 0 ? SAME_DAY_WEIGHT : sameWeekday ? SAME_WEEKDAY_WEIGHT : 1) *
+            (observation.source === 'driver' ? DRIVER_WEIGHT : 1);
+    }
+
+    private level(loadFactor: number): CrowdLevel {
+        if (loadFactor >= 0.95) return 'full';
+        if (loadFactor >= 0.75) return 'high';
+        if (loadFactor >= 0.4) return 'medium';
+        return 'low';
+    }
+
+    /**
+     * Drop reports older than MAX_AGE_DAYS and keep at most MAX_OBSERVATIONS (newest)
+     */
+    private prune(observations: CrowdObservation[], now: Date): void {
+        const cutoff = now.getTime() - MAX_AGE_DAYS * 86400000;
+        const kept = observations
+            .filter(observation => Date.parse(observation.reportedAt) >= cutoff)
+            .slice(-MAX_OBSERVATIONS);
+        observations.splice(0, observations.length, ...kept);
+    }
+
+    /**
+     * Reports are read from disk on first use
+     */
+    private getObservations(): CrowdObservation[] {
+        if (!this.observations) {
+            this.observations = crowdReportStore.load();
+        }
+        return this.observations;
+    }
+}
+
+// Export singleton instance
+export const crowdingModel = new CrowdingModel();
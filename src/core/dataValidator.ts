@@ -0,0 +1,369 @@
+import {
+    GraphData,
+    Trip,
+    ValidationIssue,
+    parseTime,
+    timeToMinutes
+} from './types';
+
+const TIME_REGEX = /^([0-3]?[0-9]|4[0-7]):[0-5][0-9]$/;    // Trips may run past midnight (24:30 is 00:30 the next morning)
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+const NODE_TYPES = ['stop', 'intersection', 'destination'];
+const EDGE_MODES = ['bus', 'local', 'walk'];
+const DIRECTIONS = ['to_campus', 'from_campus'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DISRUPTION_TYPES = ['edge_closed', 'stop_skipped', 'trip_cancelled', 'route_delay'];
+const HUB_NODE = 'CAMPUS';
+
+export class DataValidator {
+    /**
+     * Check field shapes and referential integrity of a full data set.
+     * Never throws; callers decide what to do with error-level issues.
+     */
+    public validate(data: GraphData): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const error = (code: string, message: string) => issues.push({ severity: 'error', code, message });
+
+        // Nodes
+        const nodeIds = new Set<string>();
+        data.nodes.forEach((node, idx) => {
+            if (!node.id || typeof node.id !== 'string') {
+                error('node_id', `nodes[${idx}]: missing id`);
+                return;
+            }
+            if (nodeIds.has(node.id)) {
+                error('duplicate_node', `Node ${node.id}: duplicate id`);
+            }
+            nodeIds.add(node.id);
+
+            if (!node.name || typeof node.name !== 'string') {
+                error('node_name', `Node ${node.id}: missing name`);
+            }
+            if (!NODE_TYPES.includes(node.type)) {
+                error('node_type', `Node ${node.id}: invalid type '${node.type}'`);
+            }
+            if (typeof node.gmaps_address !== 'string') {
+                error('node_address', `Node ${node.id}: missing gmaps_address`);
+            }
+            if ((node.lat !== undefined && typeof node.lat !== 'number') ||
+                (node.lng !== undefined && typeof node.lng !== 'number')) {
+                error('node_coordinates', `Node ${node.id}: lat/lng must be numbers`);
+            }
+            if (node.aliases !== undefined &&
+                (!Array.isArray(node.aliases) || node.aliases.some(alias => typeof alias !== 'string'))) {
+                error('node_aliases', `Node ${node.id}: aliases must be a list of strings`);
+            }
+        });
+
+        const routeIds = new Set(data.routes.map(route => route.route_id));
+        const serviceIds = new Set((data.calendars || []).map(calendar => calendar.service_id));
+
+        // Edges
+        data.edges.forEach(edge => {
+            const label = `Edge ${edge.from}→${edge.to} (${edge.mode})`;
+
+            if (!nodeIds.has(edge.from)) {
+                error('dangling_edge', `${label}: unknown node '${edge.from}'`);
+            }
+            if (!nodeIds.has(edge.to)) {
+                error('dangling_edge', `${label}: unknown node '${edge.to}'`);
+            }
+            if (!EDGE_MODES.includes(edge.mode)) {
+                error('edge_mode', `${label}: invalid mode`);
+            }
+            if (typeof edge.time_min !== 'number' || isNaN(edge.time_min)) {
+                error('edge_time', `${label}: time_min must be a number`);
+            } else if (edge.time_min < 0) {
+                error('negative_time', `${label}: time_min is negative`);
+            }
+            if (typeof edge.cost !== 'number' || isNaN(edge.cost)) {
+                error('edge_cost', `${label}: cost must be a number`);
+            } else if (edge.cost < 0) {
+                error('negative_cost', `${label}: cost is negative`);
+            }
+            if (typeof edge.one_way !== 'boolean') {
+                error('edge_one_way', `${label}: one_way must be a boolean`);
+            }
+            (edge.route_ids || []).forEach(routeId => {
+                if (!routeIds.has(routeId)) {
+                    error('unknown_route', `${label}: unknown route_id '${routeId}'`);
+                }
+            });
+        });
+
+        // Routes and trips
+        const seenRoutes = new Set<string>();
+        const seenTrips = new Set<string>();
+        data.routes.forEach(route => {
+            if (!route.route_id) {
+                error('route_id', 'Route without route_id');
+                return;
+            }
+            if (seenRoutes.has(route.route_id)) {
+                error('duplicate_route', `Route ${route.route_id}: duplicate id`);
+            }
+            seenRoutes.add(route.route_id);
+
+            if (!Array.isArray(route.trips)) {
+                error('route_trips', `Route ${route.route_id}: trips must be an array`);
+                return;
+            }
+
+            route.trips.forEach(trip => {
+                if (!trip.trip_id) {
+                    error('trip_id', `Route ${route.route_id}: trip without trip_id`);
+                    return;
+                }
+                if (seenTrips.has(trip.trip_id)) {
+                    error('duplicate_trip', `Trip ${trip.trip_id}: duplicate id`);
+                }
+                seenTrips.add(trip.trip_id);
+
+                if (!DIRECTIONS.includes(trip.direction)) {
+                    error('trip_direction', `Trip ${trip.trip_id}: invalid direction '${trip.direction}'`);
+                }
+                if (!TIME_REGEX.test(trip.departure_time)) {
+                    error('trip_time', `Trip ${trip.trip_id}: departure_time '${trip.departure_time}' is not HH:MM`);
+                }
+                if (!Array.isArray(trip.stops) || trip.stops.length < 2) {
+                    error('trip_stops', `Trip ${trip.trip_id}: needs at least two stops`);
+                    return;
+                }
+                trip.stops.forEach(stop => {
+                    if (!nodeIds.has(stop)) {
+                        error('unknown_stop', `Trip ${trip.trip_id}: unknown stop '${stop}'`);
+                    }
+                });
+                if (trip.service_id && !serviceIds.has(trip.service_id)) {
+                    error('unknown_service', `Trip ${trip.trip_id}: unknown service_id '${trip.service_id}'`);
+                }
+                if (trip.capacity !== undefined && (!Number.isInteger(trip.capacity) || trip.capacity <= 0)) {
+                    error('trip_capacity', `Trip ${trip.trip_id}: capacity must be a positive whole number`);
+                }
+
+                this.validateStopTimes(trip, issues);
+            });
+        });
+
+        // Calendars
+        (data.calendars || []).forEach(calendar => {
+            const dates = [
+                calendar.start_date,
+                calendar.end_date,
+                ...(calendar.added_dates || []),
+                ...(calendar.removed_dates || [])
+            ];
+            dates.forEach(date => {
+                if (date !== undefined && !DATE_REGEX.test(date)) {
+                    error('calendar_date', `Calendar ${calendar.service_id}: invalid date '${date}'`);
+                }
+            });
+            if (!Array.isArray(calendar.days) || calendar.days.some(day => !WEEKDAYS.includes(day))) {
+                error('calendar_days', `Calendar ${calendar.service_id}: days must be a list of sun..sat`);
+            }
+        });
+
+        // Disruptions
+        const seenDisruptions = new Set<string>();
+        (data.disruptions || []).forEach((disruption, idx) => {
+            if (!disruption.id || typeof disruption.id !== 'string') {
+                error('disruption_id', `disruptions[${idx}]: missing id`);
+                return;
+            }
+            const label = `Disruption ${disruption.id}`;
+            if (seenDisruptions.has(disruption.id)) {
+                error('duplicate_disruption', `${label}: duplicate id`);
+            }
+            seenDisruptions.add(disruption.id);
+
+            if (!disruption.title || typeof disruption.title !== 'string') {
+                error('disruption_title', `${label}: missing title`);
+            }
+            if (typeof disruption.start !== 'string' || !DATETIME_REGEX.test(disruption.start)) {
+                error('disruption_window', `${label}: start '${disruption.start}' is not YYYY-MM-DDTHH:MM`);
+            }
+            if (disruption.end !== undefined) {
+                if (typeof disruption.end !== 'string' || !DATETIME_REGEX.test(disruption.end)) {
+                    error('disruption_window', `${label}: end '${disruption.end}' is not YYYY-MM-DDTHH:MM`);
+                } else if (disruption.end <= disruption.start) {
+                    error('disruption_window', `${label}: end is not after start`);
+                }
+            }
+
+            switch (disruption.type) {
+                case 'edge_closed': {
+                    if (!nodeIds.has(disruption.from!) || !nodeIds.has(disruption.to!)) {
+                        error('disruption_edge', `${label}: from and to must be known nodes`);
+                        break;
+                    }
+                    if (disruption.mode !== undefined && !EDGE_MODES.includes(disruption.mode)) {
+                        error('disruption_edge', `${label}: invalid mode '${disruption.mode}'`);
+                        break;
+                    }
+                    const exists = data.edges.some(edge =>
+                        ((edge.from === disruption.from && edge.to === disruption.to) ||
+                            (edge.from === disruption.to && edge.to === disruption.from)) &&
+                        (!disruption.mode || edge.mode === disruption.mode));
+                    if (!exists) {
+                        const modeText = disruption.mode ? `${disruption.mode} ` : '';
+                        error('disruption_edge', `${label}: no ${modeText}edge between ${disruption.from} and ${disruption.to}`);
+                    }
+                    break;
+                }
+                case 'stop_skipped':
+                    if (!nodeIds.has(disruption.stop!)) {
+                        error('disruption_stop', `${label}: unknown stop '${disruption.stop}'`);
+                    }
+                    if (disruption.route_id !== undefined && !routeIds.has(disruption.route_id)) {
+                        error('unknown_route', `${label}: unknown route_id '${disruption.route_id}'`);
+                    }
+                    break;
+                case 'trip_cancelled':
+                    if (!seenTrips.has(disruption.trip_id!)) {
+                        error('disruption_trip', `${label}: unknown trip_id '${disruption.trip_id}'`);
+                    }
+                    break;
+                case 'route_delay':
+                    if (!routeIds.has(disruption.route_id!)) {
+                        error('unknown_route', `${label}: unknown route_id '${disruption.route_id}'`);
+                    }
+                    if (typeof disruption.delay_min !== 'number' || !(disruption.delay_min > 0)) {
+                        error('disruption_delay', `${label}: delay_min must be a positive number`);
+                    }
+                    break;
+                default:
+                    error('disruption_type', `${label}: type must be one of ${DISRUPTION_TYPES.join(', ')}`);
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Slower network-level checks for the validate-data script: trip segments backed by
+     * bus edges, trip directions relative to the hub and reachability from the hub.
+     * Assumes validate() found no errors.
+     */
+    public validateNetwork(data: GraphData, hubId: string = HUB_NODE): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const error = (code: string, message: string) => issues.push({ severity: 'error', code, message });
+        const warning = (code: string, message: string) => issues.push({ severity: 'warning', code, message });
+
+        // Directed adjacency (two-way edges in both directions)
+        const neighbors = new Map<string, Set<string>>();
+        const busLinks = new Set<string>();
+        const link = (from: string, to: string) => {
+            if (!neighbors.has(from)) neighbors.set(from, new Set());
+            neighbors.get(from)!.add(to);
+        };
+        data.edges.forEach(edge => {
+            link(edge.from, edge.to);
+            if (!edge.one_way) link(edge.to, edge.from);
+            if (edge.mode === 'bus') {
+                busLinks.add(`${edge.from}|${edge.to}`);
+                if (!edge.one_way) busLinks.add(`${edge.to}|${edge.from}`);
+            }
+        });
+
+        data.routes.forEach(route => {
+            route.trips.forEach(trip => {
+                for (let i = 1; i < trip.stops.length; i++) {
+                    const from = trip.stops[i - 1];
+                    const to = trip.stops[i];
+                    if (!busLinks.has(`${from}|${to}`)) {
+                        warning('missing_bus_edge',
+                            `Trip ${trip.trip_id}: no bus edge ${from}→${to} (segment time will be estimated)`);
+                    }
+                }
+
+                const first = trip.stops[0];
+                const last = trip.stops[trip.stops.length - 1];
+                if (trip.direction === 'to_campus' && last !== hubId) {
+                    error('trip_direction', `Trip ${trip.trip_id}: to_campus trip ends at ${last}, not ${hubId}`);
+                }
+                if (trip.direction === 'from_campus' && first !== hubId) {
+                    error('trip_direction', `Trip ${trip.trip_id}: from_campus trip starts at ${first}, not ${hubId}`);
+                }
+            });
+        });
+
+        // Breadth-first search from the hub over every mode
+        if (!data.nodes.some(node => node.id === hubId)) {
+            error('missing_hub', `Hub node '${hubId}' does not exist`);
+            return issues;
+        }
+        const reached = new Set<string>([hubId]);
+        const queue = [hubId];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            (neighbors.get(current) || new Set()).forEach(next => {
+                if (!reached.has(next)) {
+                    reached.add(next);
+                    queue.push(next);
+                }
+            });
+        }
+        // Still plannable through the Distance Matrix fallback, so not fatal
+        data.nodes.forEach(node => {
+            if (!reached.has(node.id)) {
+                warning('unreachable_node', `Node ${node.id}: unreachable from ${hubId} by any mode`);
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Optional stop_times: one entry per stop, HH:MM values, never going backwards
+     */
+    private validateStopTimes(trip: Trip, issues: ValidationIssue[]): void {
+        const error = (code: string, message: string) => issues.push({ severity: 'error', code, message });
+        if (!trip.stop_times) return;
+
+        // Admin edits can send any JSON here; check the shape before reading fields
+        if (!Array.isArray(trip.stop_times)) {
+            error('stop_times_shape', `Trip ${trip.trip_id}: stop_times must be an array`);
+            return;
+        }
+        const badEntry = trip.stop_times.findIndex(entry =>
+            typeof entry !== 'object' || entry === null || Array.isArray(entry));
+        if (badEntry !== -1) {
+            error('stop_times_shape', `Trip ${trip.trip_id}: stop_times[${badEntry}] must be an object`);
+            return;
+        }
+
+        if (trip.stop_times.length !== trip.stops.length) {
+            error('stop_times_length',
+                `Trip ${trip.trip_id}: stop_times has ${trip.stop_times.length} entries but stops has ${trip.stops.length}`);
+            return;
+        }
+
+        const first = trip.stop_times[0];
+        if (first.departure && first.departure !== trip.departure_time) {
+            error('stop_times_start',
+                `Trip ${trip.trip_id}: first departure ${first.departure} does not match departure_time ${trip.departure_time}`);
+        }
+
+        let lastMin = -1;
+        trip.stop_times.forEach((entry, idx) => {
+            [entry.arrival, entry.departure].forEach(value => {
+                if (value === undefined) return;
+
+                if (!TIME_REGEX.test(value)) {
+                    error('stop_times_format', `Trip ${trip.trip_id}: invalid time '${value}' at stop ${trip.stops[idx]}`);
+                    return;
+                }
+
+                const valueMin = timeToMinutes(parseTime(value));
+                if (valueMin < lastMin) {
+                    error('stop_times_order', `Trip ${trip.trip_id}: stop_times go backwards at stop ${trip.stops[idx]}`);
+                }
+                lastMin = valueMin;
+            });
+        });
+    }
+}
+
+// Export singleton instance
+export const dataValidator = new DataValidator();
@@ -0,0 +1,102 @@
+import { graph } from './graph';
+import { disruptionService } from './disruptions';
+import { calendarService } from './calendar';
+import {
+    StopDeparture,
+    StopArrival,
+    parseTime,
+    timeToMinutes,
+    clockTime,
+    serviceDateTime
+} from './types';
+
+export class DepartureBoard {
+    /**
+     * Upcoming bus departures at a stop, soonest first (trips ending here are skipped).
+     * Live reports replace scheduled times for today's trips; cancelled trips and
+     * skipped stops are left out. Late at night the next morning's buses follow,
+     * and just after midnight the previous day's trips that are still running.
+     */
+    public getDepartures(nodeId: string, time: string, date: string, limit: number = 10): StopDeparture[] {
+        const requestMin = timeToMinutes(parseTime(time));
+        const departures: StopDeparture[] = [];
+
+        calendarService.serviceDays(date, requestMin).forEach(day => {
+            disruptionService.getActiveRoutes(day.date).forEach(route => {
+                route.trips.forEach(trip => {
+                    const stopTimes = disruptionService.getStopTimes(route, trip, day.date);
+                    const finalStop = trip.stops[trip.stops.length - 1];
+
+                    stopTimes.forEach((stopTime, idx) => {
+                        if (stopTime.stop !== nodeId || stopTime.skipped) return;
+                        if (stopTimes.slice(idx + 1).every(later => later.skipped)) return; // Nowhere left to ride to
+                        if (stopTime.departureMin + day.offsetMin < requestMin) return;
+
+                        departures.push({
+                            route_id: route.route_id,
+                            routeName: route.name,
+                            trip_id: trip.trip_id,
+                            direction: trip.direction,
+                            departure: clockTime(stopTime.departureMin),
+                            departureAt: serviceDateTime(day.date, stopTime.departureMin),
+                            minutesUntil: stopTime.departureMin + day.offsetMin - requestMin,
+                            estimated: stopTime.estimated,
+                            timeSource: stopTime.realtime ? 'realtime' : 'scheduled',
+                            delayMin: stopTime.departureDelayMin ?? 0,
+                            finalStop,
+                            finalStopName: graph.getNode(finalStop)?.name || finalStop
+                        });
+                    });
+                });
+            });
+        });
+
+        return departures
+            .sort((a, b) => a.minutesUntil - b.minutesUntil)
+            .slice(0, limit);
+    }
+
+    /**
+     * Upcoming bus arrivals at a stop, soonest first (trips starting here are skipped)
+     */
+    public getArrivals(nodeId: string, time: string, date: string, limit: number = 10): StopArrival[] {
+        const requestMin = timeToMinutes(parseTime(time));
+        const arrivals: StopArrival[] = [];
+
+        calendarService.serviceDays(date, requestMin).forEach(day => {
+            disruptionService.getActiveRoutes(day.date).forEach(route => {
+                route.trips.forEach(trip => {
+                    const stopTimes = disruptionService.getStopTimes(route, trip, day.date);
+                    const originStop = trip.stops[0];
+
+                    stopTimes.forEach((stopTime, idx) => {
+                        if (stopTime.stop !== nodeId || stopTime.skipped || idx === 0) return;
+                        if (stopTime.arrivalMin + day.offsetMin < requestMin) return;
+
+                        arrivals.push({
+                            route_id: route.route_id,
+                            routeName: route.name,
+                            trip_id: trip.trip_id,
+                            direction: trip.direction,
+                            arrival: clockTime(stopTime.arrivalMin),
+                            arrivalAt: serviceDateTime(day.date, stopTime.arrivalMin),
+                            minutesUntil: stopTime.arrivalMin + day.offsetMin - requestMin,
+                            estimated: stopTime.estimated,
+                            timeSource: stopTime.realtime ? 'realtime' : 'scheduled',
+                            delayMin: stopTime.arrivalDelayMin ?? 0,
+                            originStop,
+                            originStopName: graph.getNode(originStop)?.name || originStop
+                        });
+                    });
+                });
+            });
+        });
+
+        return arrivals
+            .sort((a, b) => a.minutesUntil - b.minutesUntil)
+            .slice(0, limit);
+    }
+}
+
+// Export singleton instance
+export const departureBoard = new DepartureBoard();
@@ -0,0 +1,196 @@
+import { graph, edgeKey } from './graph';
+import { realtimeService } from './realtime';
+import { calendarService } from './calendar';
+import {
+    Disruption,
+    Edge,
+    Route,
+    Trip,
+    TripStopTime,
+    RouteOption,
+    parseTime,
+    timeToMinutes,
+    serviceDateTime,
+    serviceMinutes
+} from './types';
+
+const EDGE_MODES: Edge['mode'][] = ['bus', 'local', 'walk'];
+
+export class DisruptionService {
+    /**
+     * Disruptions in effect at `minute` (minutes since midnight, may run past it) on `date`
+     */
+    public activeAt(date: string, minute: number): Disruption[] {
+        return graph.getAllDisruptions().filter(disruption => this.isInEffect(disruption, date, minute));
+    }
+
+    /**
+     * Edge directions closed at a moment, for Graph's local searches and RAPTOR's footpaths
+     */
+    public closedEdges(date: string, minute: number): Set<string> {
+        const closed = new Set<string>();
+
+        this.activeAt(date, minute).forEach(disruption => {
+            if (disruption.type !== 'edge_closed') return;
+
+            (disruption.mode ? [disruption.mode] : EDGE_MODES).forEach(mode => {
+                closed.add(edgeKey(disruption.from!, disruption.to!, mode));
+                closed.add(edgeKey(disruption.to!, disruption.from!, mode));
+            });
+        });
+
+        return closed;
+    }
+
+    /**
+     * Routes restricted to the trips that run on a date and are not cancelled
+     */
+    public getActiveRoutes(date: string): Route[] {
+        return calendarService.getActiveRoutes(date)
+            .map(route => ({ ...route, trips: route.trips.filter(trip => !this.isCancelled(trip, date)) }))
+            .filter(route => route.trips.length > 0);
+    }
+
+    /**
+     * A trip is cancelled when a cancellation is in effect at its scheduled departure
+     */
+    public isCancelled(trip: Trip, date: string): boolean {
+        const departureMin = timeToMinutes(parseTime(trip.departure_time));
+        return this.activeAt(date, departureMin).some(disruption =>
+            disruption.type === 'trip_cancelled' && disruption.trip_id === trip.trip_id);
+    }
+
+    /**
+     * Stop times of a trip on a date (live where reported) with disruptions applied.
+     * A route delay shifts trips departing inside its window, unless a live report
+     * already shows where the bus is. Skipped stops and every stop past a closed
+     * bus segment are marked `skipped`: the bus cannot be boarded or left there.
+     */
+    public getStopTimes(route: Route, trip: Trip, date: string): TripStopTime[] {
+        const stopTimes = realtimeService.getStopTimes(trip, date);
+        const disruptions = graph.getAllDisruptions();
+        if (disruptions.length === 0) return stopTimes;
+
+        const departureMin = stopTimes[0].departureMin;
+        const delay = stopTimes.some(stopTime => stopTime.realtime) ? 0 : disruptions
+            .filter(disruption => disruption.type === 'route_delay' && disruption.route_id === route.route_id &&
+                this.isInEffect(disruption, date, departureMin))
+            .reduce((sum, disruption) => sum + disruption.delay_min!, 0);
+
+        const adjusted = stopTimes.map(stopTime => delay > 0
+            ? {
+                ...stopTime,
+                arrivalMin: stopTime.arrivalMin + delay,
+                departureMin: stopTime.departureMin + delay,
+                arrivalDelayMin: delay,
+                departureDelayMin: delay
+            }
+            : { ...stopTime });
+
+        adjusted.forEach(stopTime => {
+            if (disruptions.some(disruption => disruption.type === 'stop_skipped' && disruption.stop === stopTime.stop &&
+                (!disruption.route_id || disruption.route_id === route.route_id) &&
+                this.isInEffect(disruption, date, stopTime.arrivalMin))) {
+                stopTime.skipped = true;
+            }
+        });
+
+        // The bus cannot get past a closed road, so the trip ends at the stop before it
+        for (let i = 1; i < adjusted.length; i++) {
+            const previous = adjusted[i - 1];
+            const closed = disruptions.some(disruption => disruption.type === 'edge_closed' &&
+                (!disruption.mode || disruption.mode === 'bus') &&
+                this.connects(disruption, previous.stop, adjusted[i].stop) &&
+                this.isInEffect(disruption, date, previous.departureMin));
+            if (closed) {
+                adjusted.slice(i).forEach(stopTime => {
+                    stopTime.skipped = true;
+                });
+                break;
+            }
+        }
+
+        return adjusted;
+    }
+
+    /**
+     * Disruptions in effect while any of the options runs that touch one of its
+     * stops, a road next to them, or a route it rides
+     */
+    public alertsFor(options: RouteOption[], date: string): Disruption[] {
+        const alerts = new Map<string, Disruption>();
+
+        options.forEach(option => {
+            if (option.legs.length === 0) return;
+
+            const startMin = serviceMinutes(date, option.legs[0].departureAt!);
+            const endMin = serviceMinutes(date, option.legs[option.legs.length - 1].arrivalAt!);
+
+            const stops = new Set<string>();
+            const routeIds = new Set<string>();
+            option.legs.forEach(leg => {
+                stops.add(leg.from);
+                stops.add(leg.to);
+                if (leg.mode !== 'bus') return;
+
+                routeIds.add(leg.route_id!);
+                // Stops the bus passes on the way
+                const trip = leg.trip_id ? graph.getTrip(leg.trip_id) : undefined;
+                if (trip) {
+                    const fromIndex = trip.stops.indexOf(leg.from);
+                    const toIndex = trip.stops.indexOf(leg.to, fromIndex);
+                    trip.stops.slice(fromIndex, toIndex + 1).forEach(stop => stops.add(stop));
+                }
+            });
+
+            graph.getAllDisruptions().forEach(disruption => {
+                if (alerts.has(disruption.id) || !this.overlaps(disruption, date, startMin, endMin)) return;
+                if (this.touches(disruption, stops, routeIds)) {
+                    alerts.set(disruption.id, disruption);
+                }
+            });
+        });
+
+        return Array.from(alerts.values()).sort((a, b) => a.start.localeCompare(b.start));
+    }
+
+    private touches(disruption: Disruption, stops: Set<string>, routeIds: Set<string>): boolean {
+        switch (disruption.type) {
+            case 'edge_closed':
+                return stops.has(disruption.from!) || stops.has(disruption.to!);
+            case 'stop_skipped':
+                return stops.has(disruption.stop!);
+            case 'route_delay':
+                return routeIds.has(disruption.route_id!);
+            case 'trip_cancelled':
+                return graph.getAllRoutes().some(route =>
+                    routeIds.has(route.route_id) && route.trips.some(trip => trip.trip_id === disruption.trip_id));
+        }
+    }
+
+    private connects(disruption: Disruption, a: string, b: string): boolean {
+        return (disruption.from === a && disruption.to === b) || (disruption.from === b && disruption.to === a);
+    }
+
+    private isInEffect(disruption: Disruption, date: string, minute: number): boolean {
+        return this.overlaps(disruption, date, minute, minute);
+    }
+
+    /**
+     * The window [start, end) meets the span between two moments on `date`
+     */
+    private overlaps(disruption: Disruption, date: string, fromMin: number, toMin: number): boolean {
+        return disruption.start <= this.stamp(date, toMin) &&
+            (!disruption.end || disruption.end > this.stamp(date, fromMin));
+    }
+
+    /**
+     * YYYY-MM-DDTHH:MM of a minute offset from midnight of `date` (rolls over days)
+     */
+    private stamp(date: string, minute: number): string {
+        return serviceDateTime(date, minute).slice(0, 16);
+    }
+}
+
+// Export singleton instance
+export const disruptionService = new DisruptionService();
@@ -0,0 +1,155 @@
+import { dataStore } from '../infra/dataStore';
+import {
+    RouteOption,
+    RouteLeg,
+    FareConfig,
+    FareVehicle,
+    FareType,
+    FareBreakdown,
+    FareTariff,
+    parseTime,
+    timeToMinutes
+} from './types';
+
+export class FareModel {
+    private config: FareConfig | null = null;
+
+    /**
+     * Price every walk/local leg from its distance and recompute option totals.
+     * Legs without a known distance keep the fixed cost from their edge.
+     */
+    public apply(options: RouteOption[], fareType: FareType = 'shared'): void {
+        options.forEach(option => {
+            option.legs.forEach(leg => this.priceLeg(leg, fareType));
+            option.totalCost = option.legs.reduce((sum, leg) => sum + (leg.cost || 0), 0);
+        });
+    }
+
+    /**
+     * Cheapest vehicle that covers the distance and offers the fare type
+     * (falling back to the other fare type when none does)
+     */
+    public quote(distanceMeters: number, departureMin: number, fareType: FareType = 'shared'): FareBreakdown | null {
+        const distanceKm = distanceMeters / 1000;
+        const vehicles = (Object.keys(this.getConfig().vehicles) as FareVehicle[])
+            .filter(vehicle => vehicle !== 'walking' && this.covers(vehicle, distanceKm));
+
+        for (const type of [fareType, fareType === 'shared' ? 'reserved' : 'shared'] as FareType[]) {
+            const quotes = vehicles
+                .map(vehicle => this.price(vehicle, type, distanceMeters, departureMin))
+                .filter((quote): quote is FareBreakdown => quote !== null);
+
+            if (quotes.length > 0) {
+                return quotes.reduce((best, quote) => quote.total < best.total ? quote : best);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * base + per-km, raised to the minimum fare, plus the night surcharge
+     */
+    public price(
+        vehicle: FareVehicle,
+        fareType: FareType,
+        distanceMeters: number,
+        departureMin: number
+    ): FareBreakdown | null {
+        const config = this.getConfig();
+        const tariff = config.vehicles[vehicle]?.[fareType];
+        if (!tariff) return null;
+
+        const distanceKm = Math.round(distanceMeters / 100) / 10;
+        const distanceFare = Math.round(tariff.per_km * distanceMeters / 1000);
+        const minimumApplied = tariff.base_fare + distanceFare < tariff.min_fare;
+        const fare = minimumApplied ? tariff.min_fare : tariff.base_fare + distanceFare;
+        const nightSurcharge = this.isNight(departureMin)
+            ? Math.round(fare * config.vehicles[vehicle].night_surcharge_pct / 100)
+            : 0;
+
+        return {
+            vehicle,
+            fareType,
+            distanceKm,
+            baseFare: tariff.base_fare,
+            distanceFare,
+            minimumApplied,
+            nightSurcharge,
+            total: fare + nightSurcharge,
+            currency: config.currency
+        };
+    }
+
+    /**
+     * Re-read fares.json; throws (keeping the current fares) if it is invalid
+     */
+    public reload(): void {
+        const config = dataStore.readFares();
+        this.validate(config);
+        this.config = config;
+    }
+
+    public getConfig(): FareConfig {
+        if (!this.config) {
+            this.reload();
+        }
+        return this.config!;
+    }
+
+    private priceLeg(leg: RouteLeg, fareType: FareType): void {
+        if (leg.mode === 'bus' || leg.distanceMeters === undefined) return;
+
+        const departureMin = leg.departure ? timeToMinutes(parseTime(leg.departure)) : 0;
+        const fare = leg.mode === 'walk'
+            ? this.price('walking', fareType, leg.distanceMeters, departureMin)
+            : this.quote(leg.distanceMeters, departureMin, fareType);
+
+        if (fare) {
+            leg.fare = fare;
+            leg.cost = fare.total;
+        }
+    }
+
+    private covers(vehicle: FareVehicle, distanceKm: number): boolean {
+        const { min_km, max_km } = this.getConfig().vehicles[vehicle];
+        return (min_km === undefined || distanceKm >= min_km) && (max_km === undefined || distanceKm <= max_km);
+    }
+
+    /**
+     * Night window may wrap past midnight (22:00-06:00)
+     */
+    private isNight(departureMin: number): boolean {
+        const { night } = this.getConfig();
+        const start = timeToMinutes(parseTime(night.start));
+        const end = timeToMinutes(parseTime(night.end));
+        const minute = departureMin % 1440;
+
+        return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+    }
+
+    private validate(config: FareConfig): void {
+        const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+        if (!config.night || !timeRegex.test(config.night.start) || !timeRegex.test(config.night.end)) {
+            throw new Error('Invalid fare config: night.start and night.end must be HH:MM');
+        }
+
+        const vehicles: FareVehicle[] = ['cng', 'rickshaw', 'tempo', 'walking'];
+        vehicles.forEach(vehicle => {
+            const entry = config.vehicles?.[vehicle];
+            if (!entry || (!entry.shared && !entry.reserved)) {
+                throw new Error(`Invalid fare config: ${vehicle} needs a shared or reserved tariff`);
+            }
+
+            const amounts = [entry.night_surcharge_pct, ...[entry.shared, entry.reserved]
+                .filter((tariff): tariff is FareTariff => tariff !== undefined)
+                .flatMap(tariff => [tariff.base_fare, tariff.per_km, tariff.min_fare])];
+            if (amounts.some(amount => typeof amount !== 'number' || isNaN(amount) || amount < 0)) {
+                throw new Error(`Invalid fare config: ${vehicle} amounts must be non-negative numbers`);
+            }
+        });
+    }
+}
+
+// Export singleton instance
+export const fareModel = new FareModel();
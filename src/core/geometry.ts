@@ -0,0 +1,59 @@
+import { graph } from './graph';
+import { RouteLeg, RouteOption, LineString } from './types';
+
+export class GeometryBuilder {
+    /**
+     * Attach a LineString to every leg whose nodes have coordinates
+     */
+    public attach(options: RouteOption[]): void {
+        options.forEach(option => {
+            option.legs.forEach(leg => {
+                const geometry = this.legGeometry(leg);
+                if (geometry) {
+                    leg.geometry = geometry;
+                }
+            });
+        });
+    }
+
+    /**
+     * Bus legs follow the trip's stops; local/walk legs are a straight from→to line
+     */
+    public legGeometry(leg: RouteLeg): LineString | undefined {
+        return this.pathGeometry(this.legNodes(leg));
+    }
+
+    /**
+     * Line through a node sequence, skipping nodes without coordinates
+     */
+    public pathGeometry(nodeIds: string[]): LineString | undefined {
+        const coordinates: [number, number][] = [];
+
+        nodeIds.forEach(nodeId => {
+            const node = graph.getNode(nodeId);
+            if (node?.lat !== undefined && node?.lng !== undefined) {
+                coordinates.push([node.lng, node.lat]);
+            }
+        });
+
+        return coordinates.length >= 2 ? { type: 'LineString', coordinates } : undefined;
+    }
+
+    private legNodes(leg: RouteLeg): string[] {
+        if (leg.mode === 'bus' && leg.trip_id) {
+            const trip = graph.getTrip(leg.trip_id);
+            if (trip) {
+                const fromIndex = trip.stops.indexOf(leg.from);
+                const toIndex = trip.stops.indexOf(leg.to, fromIndex + 1);
+                if (fromIndex !== -1 && toIndex !== -1) {
+                    return trip.stops.slice(fromIndex, toIndex + 1);
+                }
+            }
+        }
+
+        return [leg.from, leg.to];
+    }
+}
+
+// Export singleton instance
+export const geometryBuilder = new GeometryBuilder();
@@ -1,22 +1,35 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import {
     GraphData,
     Node,
     Edge,
     Route,
+    Trip,
+    ServiceCalendar,
+    Disruption,
     AdjacencyList,
     EdgeInfo,
-    PathResult,
-    parseTime,
-    timeToMinutes
+    PathResult
 } from './types';
+import { PriorityQueue } from './priorityQueue';
+import { dataValidator } from './dataValidator';
+import { dataStore } from '../infra/dataStore';
+
+/**
+ * Key of one direction of an edge, as used in the `closedEdges` sets passed to searches
+ */
+export function edgeKey(from: string, to: string, mode: Edge['mode']): string {
+    return `${from}|${to}|${mode}`;
+}
 
 export class Graph {
     private nodes: Map<string, Node> = new Map();
     private edges: Edge[] = [];
     private routes: Map<string, Route> = new Map();
+    private trips: Map<string, Trip> = new Map();
+    private calendars: Map<string, ServiceCalendar> = new Map();
+    private disruptions: Map<string, Disruption> = new Map();
     private adjacencyList: AdjacencyList = {};
+    private reverseAdjacencyList: { [nodeId: string]: { from: string; edge: EdgeInfo }[] } = {};
 
     constructor() { }
 
@@ -24,26 +37,46 @@ export class Graph {
      * Load graph data from JSON files
      */
     public loadData(): void {
-        const dataDir = path.join(__dirname, '../data');
+        this.loadFromData(dataStore.read());
+        console.log(`✓ Loaded ${this.nodes.size} nodes, ${this.edges.length} edges, ${this.routes.size} routes, ${this.calendars.size} calendars, ${this.disruptions.size} disruptions`);
 
-        // Load nodes
-        const nodesPath = path.join(dataDir, 'nodes.json');
-        const nodesData: Node[] = JSON.parse(fs.readFileSync(nodesPath, 'utf-8'));
-        nodesData.forEach(node => this.nodes.set(node.id, node));
+        const geocoded = this.getAllNodes().filter(node => node.lat !== undefined && node.lng !== undefined).length;
+        if (geocoded < this.nodes.size) {
+            console.warn(`⚠️  ${this.nodes.size - geocoded} of ${this.nodes.size} nodes have no lat/lng: GPS planning, GPS reports and coordinate-based providers skip them (run npm run geocode-nodes)`);
+        }
+    }
 
-        // Load edges
-        const edgesPath = path.join(dataDir, 'edges.json');
-        this.edges = JSON.parse(fs.readFileSync(edgesPath, 'utf-8'));
+    /**
+     * Replace the graph contents with a validated data set and rebuild the adjacency list.
+     * Throws (leaving the current graph untouched) if the data has errors.
+     */
+    public loadFromData(data: GraphData): void {
+        const errors = dataValidator.validate(data).filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`Invalid graph data: ${errors.map(issue => issue.message).join('; ')}`);
+        }
 
-        // Load routes
-        const routesPath = path.join(dataDir, 'routes.json');
-        const routesData: Route[] = JSON.parse(fs.readFileSync(routesPath, 'utf-8'));
-        routesData.forEach(route => this.routes.set(route.route_id, route));
+        this.nodes = new Map(data.nodes.map(node => [node.id, node]));
+        this.edges = data.edges;
+        this.routes = new Map(data.routes.map(route => [route.route_id, route]));
+        this.trips = new Map(data.routes.flatMap(route => route.trips.map(trip => [trip.trip_id, trip] as [string, Trip])));
+        this.calendars = new Map((data.calendars || []).map(calendar => [calendar.service_id, calendar]));
+        this.disruptions = new Map((data.disruptions || []).map(disruption => [disruption.id, disruption]));
 
-        // Build adjacency list
         this.buildAdjacencyList();
+    }
 
-        console.log(`✓ Loaded ${this.nodes.size} nodes, ${this.edges.length} edges, ${this.routes.size} routes`);
+    /**
+     * Deep copy of the current data set (safe to mutate)
+     */
+    public toData(): GraphData {
+        return JSON.parse(JSON.stringify({
+            nodes: this.getAllNodes(),
+            edges: this.edges,
+            routes: this.getAllRoutes(),
+            calendars: this.getAllCalendars(),
+            disruptions: this.getAllDisruptions()
+        }));
     }
 
     /**
@@ -64,7 +97,8 @@ export class Graph {
                 mode: edge.mode,
                 route_ids: edge.route_ids,
                 time_min: edge.time_min,
-                cost: edge.cost
+                cost: edge.cost,
+                distance_meters: edge.distance_meters
             };
 
             this.adjacencyList[edge.from].push(edgeInfo);
@@ -76,10 +110,22 @@ export class Graph {
                     mode: edge.mode,
                     route_ids: edge.route_ids,
                     time_min: edge.time_min,
-                    cost: edge.cost
+                    cost: edge.cost,
+                    distance_meters: edge.distance_meters
                 });
             }
         });
+
+        // Reverse index for one-to-all searches towards a target
+        this.reverseAdjacencyList = {};
+        Object.keys(this.adjacencyList).forEach(nodeId => {
+            this.adjacencyList[nodeId].forEach(edge => {
+                if (!this.reverseAdjacencyList[edge.to]) {
+                    this.reverseAdjacencyList[edge.to] = [];
+                }
+                this.reverseAdjacencyList[edge.to].push({ from: nodeId, edge });
+            });
+        });
     }
 
     /**
@@ -103,6 +149,13 @@ export class Graph {
         return this.routes.get(routeId);
     }
 
+    /**
+     * Get trip by ID (across all routes)
+     */
+    public getTrip(tripId: string): Trip | undefined {
+        return this.trips.get(tripId);
+    }
+
     /**
      * Get all routes
      */
@@ -110,6 +163,34 @@ export class Graph {
         return Array.from(this.routes.values());
     }
 
+    /**
+     * Get service calendar by ID
+     */
+    public getCalendar(serviceId: string): ServiceCalendar | undefined {
+        return this.calendars.get(serviceId);
+    }
+
+    /**
+     * Get all service calendars
+     */
+    public getAllCalendars(): ServiceCalendar[] {
+        return Array.from(this.calendars.values());
+    }
+
+    /**
+     * Get all disruptions, including ones not (or no longer) in effect
+     */
+    public getAllDisruptions(): Disruption[] {
+        return Array.from(this.disruptions.values());
+    }
+
+    /**
+     * Get all edges as loaded from edges.json
+     */
+    public getAllEdges(): Edge[] {
+        return [...this.edges];
+    }
+
     /**
      * Get adjacency list for a node
      */
@@ -118,10 +199,22 @@ export class Graph {
     }
 
     /**
-     * Find shortest path using only local transport (walk or local)
-     * Uses Dijkstra's algorithm
+     * Get edges arriving at a node, with the node they leave from
      */
-    public localShortestPath(from: string, to: string, allowedModes: ('walk' | 'local')[] = ['walk', 'local']): PathResult {
+    public getIncoming(nodeId: string): { from: string; edge: EdgeInfo }[] {
+        return this.reverseAdjacencyList[nodeId] || [];
+    }
+
+    /**
+     * Find shortest path using only local transport (walk or local), avoiding closed edges
+     * Uses Dijkstra's algorithm on a binary heap
+     */
+    public localShortestPath(
+        from: string,
+        to: string,
+        allowedModes: ('walk' | 'local')[] = ['walk', 'local'],
+        closedEdges: Set<string> = new Set()
+    ): PathResult {
         // Validate nodes exist
         if (!this.nodes.has(from) || !this.nodes.has(to)) {
             return { found: false, path: [], totalTime: Infinity, totalCost: 0, edges: [] };
@@ -132,39 +225,21 @@ export class Graph {
         }
 
         // Dijkstra's algorithm
-        const distances: Map<string, number> = new Map();
-        const costs: Map<string, number> = new Map();
-        const previous: Map<string, string | null> = new Map();
+        const distances: Map<string, number> = new Map([[from, 0]]);
+        const costs: Map<string, number> = new Map([[from, 0]]);
+        const previous: Map<string, string> = new Map();
         const edgeMap: Map<string, EdgeInfo> = new Map();
-        const unvisited: Set<string> = new Set();
+        const visited: Set<string> = new Set();
+        const queue = new PriorityQueue<string>();
 
-        // Initialize
-        this.nodes.forEach((_, nodeId) => {
-            distances.set(nodeId, Infinity);
-            costs.set(nodeId, 0);
-            previous.set(nodeId, null);
-            unvisited.add(nodeId);
-        });
+        queue.push(from, 0);
 
-        distances.set(from, 0);
-
-        while (unvisited.size > 0) {
-            // Find node with minimum distance
-            let current: string | null = null;
-            let minDist = Infinity;
-            unvisited.forEach(nodeId => {
-                const dist = distances.get(nodeId)!;
-                if (dist < minDist) {
-                    minDist = dist;
-                    current = nodeId;
-                }
-            });
+        while (!queue.isEmpty()) {
+            const { item: current } = queue.pop()!;
 
-            if (current === null || minDist === Infinity) {
-                break; // No path found
-            }
-
-            unvisited.delete(current);
+            // Skip stale queue entries
+            if (visited.has(current)) continue;
+            visited.add(current);
 
             // Found destination
             if (current === to) {
@@ -172,53 +247,129 @@ export class Graph {
             }
 
             // Check neighbors
-            const neighbors = this.getNeighbors(current);
-            neighbors.forEach(edge => {
+            this.getNeighbors(current).forEach(edge => {
                 if (!allowedModes.includes(edge.mode as any)) {
                     return; // Skip non-local edges
                 }
 
-                if (!unvisited.has(edge.to)) {
+                if (visited.has(edge.to)) {
                     return; // Already visited
                 }
 
-                const newDist = distances.get(current!)! + edge.time_min;
-                if (newDist < distances.get(edge.to)!) {
+                if (closedEdges.has(edgeKey(current, edge.to, edge.mode))) {
+                    return; // Closed by a disruption
+                }
+
+                const newDist = distances.get(current)! + edge.time_min;
+                if (newDist < (distances.get(edge.to) ?? Infinity)) {
                     distances.set(edge.to, newDist);
-                    costs.set(edge.to, costs.get(current!)! + edge.cost);
+                    costs.set(edge.to, costs.get(current)! + edge.cost);
                     previous.set(edge.to, current);
                     edgeMap.set(edge.to, edge);
+                    queue.push(edge.to, newDist);
                 }
             });
         }
 
         // Reconstruct path
-        const finalDist = distances.get(to)!;
-        if (finalDist === Infinity) {
+        if (!visited.has(to)) {
             return { found: false, path: [], totalTime: Infinity, totalCost: 0, edges: [] };
         }
 
         const path: string[] = [];
         const edges: EdgeInfo[] = [];
-        let current: string | null = to;
+        let current: string | undefined = to;
 
-        while (current !== null) {
+        while (current !== undefined) {
             path.unshift(current);
-            if (previous.get(current)) {
+            if (previous.has(current)) {
                 edges.unshift(edgeMap.get(current)!);
             }
-            current = previous.get(current) || null;
+            current = previous.get(current);
         }
 
         return {
             found: true,
             path,
-            totalTime: finalDist,
+            totalTime: distances.get(to)!,
             totalCost: costs.get(to)!,
             edges
         };
     }
 
+    /**
+     * Shortest local paths from every node to a single target (one-to-all, reversed).
+     * One reverse Dijkstra replaces a localShortestPath call per origin.
+     */
+    public localShortestPathsTo(
+        to: string,
+        allowedModes: ('walk' | 'local')[] = ['walk', 'local'],
+        closedEdges: Set<string> = new Set()
+    ): Map<string, PathResult> {
+        const results: Map<string, PathResult> = new Map();
+        if (!this.nodes.has(to)) {
+            return results;
+        }
+
+        const distances: Map<string, number> = new Map([[to, 0]]);
+        const costs: Map<string, number> = new Map([[to, 0]]);
+        const next: Map<string, string> = new Map();
+        const edgeMap: Map<string, EdgeInfo> = new Map();
+        const visited: Set<string> = new Set();
+        const queue = new PriorityQueue<string>();
+
+        queue.push(to, 0);
+
+        while (!queue.isEmpty()) {
+            const { item: current } = queue.pop()!;
+
+            if (visited.has(current)) continue;
+            visited.add(current);
+
+            // Follow edges backwards: predecessor --edge--> current
+            this.getIncoming(current).forEach(({ from: predecessor, edge }) => {
+                if (edge.mode === 'bus' || !allowedModes.includes(edge.mode) || visited.has(predecessor) ||
+                    closedEdges.has(edgeKey(predecessor, current, edge.mode))) {
+                    return;
+                }
+
+                const newDist = distances.get(current)! + edge.time_min;
+                if (newDist < (distances.get(predecessor) ?? Infinity)) {
+                    distances.set(predecessor, newDist);
+                    costs.set(predecessor, costs.get(current)! + edge.cost);
+                    next.set(predecessor, current);
+                    edgeMap.set(predecessor, edge);
+                    queue.push(predecessor, newDist);
+                }
+            });
+        }
+
+        // Reconstruct a forward path for every reached node
+        visited.forEach(origin => {
+            const path: string[] = [];
+            const edges: EdgeInfo[] = [];
+            let current: string | undefined = origin;
+
+            while (current !== undefined) {
+                path.push(current);
+                if (next.has(current)) {
+                    edges.push(edgeMap.get(current)!);
+                }
+                current = next.get(current);
+            }
+
+            results.set(origin, {
+                found: true,
+                path,
+                totalTime: distances.get(origin)!,
+                totalCost: costs.get(origin)!,
+                edges
+            });
+        });
+
+        return results;
+    }
+
     /**
      * Check if node exists
      */
@@ -235,5 +386,12 @@ export class Graph {
     }
 }
 
-// Export singleton instance
-export const graph = new Graph();
+// Export singleton instance (reassigned by replaceGraph on hot reload)
+export let graph = new Graph();
+
+/**
+ * Swap in a fully loaded graph. Importers see the new instance on their next access.
+ */
+export function replaceGraph(next: Graph): void {
+    graph = next;
+}
@@ -0,0 +1,316 @@
+import { graph } from './graph';
+import { routePlanner } from './planner';
+import { tripDetails } from './tripDetails';
+import { departureBoard } from './departureBoard';
+import { calendarService } from './calendar';
+import {
+    StreamTopic,
+    StreamEvent,
+    StreamEventName,
+    RouteResponse
+} from './types';
+
+const REFRESH_INTERVAL_MS = 30000;  // ETAs drift and live reports go stale even without new input (trips and stops)
+const DEBOUNCE_MS = 500;            // Batch a burst of realtime reports into one refresh
+const MAX_TOPICS_PER_CLIENT = 20;
+const TIME_REGEX = /^([0-3]?[0-9]|4[0-7]):[0-5][0-9]$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Current state of a topic; `hash` ignores fields that change on their own (countdowns)
+ */
+interface Snapshot {
+    event: StreamEventName;
+    hash: string;
+    data: unknown;
+    bestTimeMin?: number;
+    departsAt?: number;     // Epoch ms when the best journey option leaves, while still ahead
+}
+
+interface Subscriber {
+    send: (event: StreamEvent) => void;
+    topics: Map<string, StreamTopic>;
+    sent: Map<string, Snapshot>;
+}
+
+export class LiveUpdateHub {
+    private subscribers = new Map<number, Subscriber>();
+    private nextId = 1;
+    private timer: NodeJS.Timeout | null = null;
+    private pending: NodeJS.Timeout | null = null;
+    private journeys = new Map<string, Snapshot>();     // Last plan per journey topic
+
+    /**
+     * Register a client (SSE response or WebSocket); returns its subscriber ID
+     */
+    public connect(send: (event: StreamEvent) => void): number {
+        const id = this.nextId++;
+        this.subscribers.set(id, { send, topics: new Map(), sent: new Map() });
+
+        if (!this.timer) {
+            this.timer = setInterval(() => this.publish(false), REFRESH_INTERVAL_MS);
+        }
+        return id;
+    }
+
+    public disconnect(id: number): void {
+        this.subscribers.delete(id);
+
+        if (this.subscribers.size === 0 && this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            this.journeys.clear();
+        }
+    }
+
+    /**
+     * Why a topic cannot be followed, or null if it can
+     */
+    public checkTopic(topic: StreamTopic): string | null {
+        switch (topic?.type) {
+            case 'trip':
+                return graph.getTrip(topic.trip_id) ? null : `Trip '${topic.trip_id}' not found`;
+            case 'stop':
+                return graph.hasNode(topic.stop_id) ? null : `Stop '${topic.stop_id}' not found`;
+            case 'journey':
+                if (!graph.hasNode(topic.from) || !graph.hasNode(topic.to)) {
+                    return 'A journey needs known from and to node IDs';
+                }
+                if (topic.time !== undefined && !TIME_REGEX.test(topic.time)) {
+                    return `Time '${topic.time}' is not in HH:MM format`;
+                }
+                if (topic.date !== undefined && !DATE_REGEX.test(topic.date)) {
+                    return `Date '${topic.date}' is not in YYYY-MM-DD format`;
+                }
+                if (topic.fareType !== undefined && topic.fareType !== 'shared' && topic.fareType !== 'reserved') {
+                    return `fareType must be 'shared' or 'reserved'`;
+                }
+                return null;
+            default:
+                return `Topic type must be 'trip', 'stop' or 'journey'`;
+        }
+    }
+
+    /**
+     * Why a set of topics cannot be followed on one connection (empty if they can)
+     */
+    public checkTopics(topics: StreamTopic[]): string[] {
+        const problems = topics
+            .map(topic => this.checkTopic(topic))
+            .filter((problem): problem is string => problem !== null);
+        if (topics.length > MAX_TOPICS_PER_CLIENT) {
+            problems.push(`At most ${MAX_TOPICS_PER_CLIENT} topics per connection`);
+        }
+        return problems;
+    }
+
+    /**
+     * Follow a topic; its current state follows as the first event. A journey
+     * without a time is saved at the current time. Returns the topic key.
+     */
+    public subscribe(id: number, topic: StreamTopic): string {
+        const subscriber = this.subscribers.get(id);
+        if (!subscriber) {
+            throw new Error(`Subscriber ${id} is not connected`);
+        }
+
+        const problem = this.checkTopic(topic);
+        if (problem) {
+            throw new Error(problem);
+        }
+        if (subscriber.topics.size >= MAX_TOPICS_PER_CLIENT) {
+            throw new Error(`At most ${MAX_TOPICS_PER_CLIENT} topics per connection`);
+        }
+
+        const saved: StreamTopic = topic.type === 'journey'
+            ? {
+                ...topic,
+                time: topic.time || calendarService.currentTime(),
+                date: topic.date || calendarService.today()
+            }
+            : topic;
+        const key = this.keyOf(saved);
+        subscriber.topics.set(key, saved);
+
+        this.snapshot(saved, false).then(snapshot => {
+            if (snapshot && subscriber.topics.has(key) && this.subscribers.has(id)) {
+                this.deliver(subscriber, key, snapshot);
+            }
+        });
+        return key;
+    }
+
+    public unsubscribe(id: number, key: string): boolean {
+        const subscriber = this.subscribers.get(id);
+        subscriber?.sent.delete(key);
+        return subscriber?.topics.delete(key) ?? false;
+    }
+
+    /**
+     * Something changed (live report, crowd report, data edit): recompute every topic
+     * shortly, journeys included
+     */
+    public refresh(): void {
+        if (this.subscribers.size === 0) return;
+
+        if (this.pending) clearTimeout(this.pending);
+        this.pending = setTimeout(() => {
+            this.pending = null;
+            this.publish(true);
+        }, DEBOUNCE_MS);
+    }
+
+    public getStats(): { clients: number; topics: number } {
+        const keys = new Set<string>();
+        this.subscribers.forEach(subscriber => subscriber.topics.forEach((_, key) => keys.add(key)));
+        return { clients: this.subscribers.size, topics: keys.size };
+    }
+
+    /**
+     * Compute each followed topic once and send it to the clients whose last copy differs.
+     * Journeys are only re-planned with `replanJourneys` or once their best option has left.
+     */
+    private async publish(replanJourneys: boolean): Promise<void> {
+        const topics = new Map<string, StreamTopic>();
+        this.subscribers.forEach(subscriber => subscriber.topics.forEach((topic, key) => topics.set(key, topic)));
+
+        // Forget plans nobody follows any more
+        this.journeys.forEach((_, key) => {
+            if (!topics.has(key)) this.journeys.delete(key);
+        });
+
+        for (const [key, topic] of topics) {
+            const snapshot = await this.snapshot(topic, replanJourneys);
+            if (!snapshot) continue;
+
+            this.subscribers.forEach(subscriber => {
+                if (subscriber.topics.has(key)) {
+                    this.deliver(subscriber, key, snapshot);
+                }
+            });
+        }
+    }
+
+    private deliver(subscriber: Subscriber, key: string, snapshot: Snapshot): void {
+        const previous = subscriber.sent.get(key);
+        if (previous?.hash === snapshot.hash) return;
+
+        let event = snapshot.event;
+        // Trip updates keep their name once a trip is cancelled; the first one announces it
+        if (event === 'trip_cancelled' && previous?.event === 'trip_cancelled') {
+            event = 'trip_update';
+        }
+        if (event === 'journey_update' && previous?.bestTimeMin !== undefined &&
+            snapshot.bestTimeMin !== undefined && snapshot.bestTimeMin < previous.bestTimeMin) {
+            event = 'better_alternative';
+        }
+
+        subscriber.sent.set(key, snapshot);
+        try {
+            subscriber.send({ event, topic: key, data: snapshot.data });
+        } catch (error: any) {
+            console.error(`✗ Stream delivery failed for ${key}: ${error.message}`);
+        }
+    }
+
+    private async snapshot(topic: StreamTopic, replanJourneys: boolean): Promise<Snapshot | null> {
+        try {
+            switch (topic.type) {
+                case 'trip': return this.tripSnapshot(topic.trip_id);
+                case 'stop': return this.stopSnapshot(topic.stop_id);
+                case 'journey': return await this.journeySnapshot(topic, replanJourneys);
+            }
+        } catch (error: any) {
+            console.error(`✗ Stream update for ${this.keyOf(topic)} failed: ${error.message}`);
+            return null;
+        }
+    }
+
+    private tripSnapshot(tripId: string): Snapshot {
+        const trip = graph.getTrip(tripId);
+        const route = tripDetails.findRouteOfTrip(tripId);
+
+        // Deleted by an admin edit since the client subscribed
+        if (!trip || !route) {
+            const data = { trip_id: tripId, cancelled: true, removed: true };
+            return { event: 'trip_cancelled', hash: JSON.stringify(data), data };
+        }
+
+        const { geometry, ...detail } = tripDetails.describeTrip(trip, route);
+        return {
+            event: detail.cancelled ? 'trip_cancelled' : 'trip_update',
+            hash: JSON.stringify({ cancelled: detail.cancelled, stops: detail.stops }),
+            data: detail
+        };
+    }
+
+    private stopSnapshot(stopId: string): Snapshot {
+        const departures = departureBoard.getDepartures(stopId, calendarService.currentTime(), calendarService.today());
+        return {
+            event: 'departures',
+            hash: JSON.stringify(departures.map(({ minutesUntil, ...departure }) => departure)),
+            data: {
+                stop: { id: stopId, name: graph.getNode(stopId)?.name || stopId },
+                departures
+            }
+        };
+    }
+
+    /**
+     * Planning can cost Distance Matrix calls, so a journey's last plan is reused
+     * until something changed or its best option has departed. The saved time never
+     * moves, so a plan made after that departure only changes with the data.
+     */
+    private async journeySnapshot(
+        topic: Extract<StreamTopic, { type: 'journey' }>,
+        replan: boolean
+    ): Promise<Snapshot> {
+        const key = this.keyOf(topic);
+        const cached = this.journeys.get(key);
+        if (cached && !replan && (cached.departsAt === undefined || cached.departsAt > Date.now())) {
+            return cached;
+        }
+
+        const plan: RouteResponse = await routePlanner.planRoute(topic.from, topic.to, topic.time!, {
+            date: topic.date,
+            arriveBy: topic.arriveBy,
+            fareType: topic.fareType
+        });
+
+        const departureAt = plan.options[0]?.legs[0]?.departureAt;
+        const departsAt = departureAt ? Date.parse(departureAt) : NaN;
+        const snapshot: Snapshot = {
+            event: 'journey_update',
+            hash: JSON.stringify({
+                options: plan.options.map(option => option.legs.map(leg =>
+                    [leg.mode, leg.trip_id, leg.from, leg.to, leg.departure, leg.arrival])),
+                alerts: plan.alerts.map(alert => alert.id)
+            }),
+            data: plan,
+            bestTimeMin: plan.options.length > 0
+                ? Math.min(...plan.options.map(option => option.totalTimeMin))
+                : undefined,
+            departsAt: departsAt > Date.now() ? departsAt : undefined
+        };
+        this.journeys.set(key, snapshot);
+        return snapshot;
+    }
+
+    private keyOf(topic: StreamTopic): string {
+        switch (topic.type) {
+            case 'trip': return `trip:${topic.trip_id}`;
+            case 'stop': return `stop:${topic.stop_id}`;
+            case 'journey': return [
+                'journey',
+                topic.from,
+                topic.to,
+                topic.date,
+                `${topic.arriveBy ? 'by' : 'at'}${topic.time}`,
+                topic.fareType || 'shared'
+            ].join(':');
+        }
+    }
+}
+
+// Export singleton instance
+export const liveUpdates = new LiveUpdateHub();
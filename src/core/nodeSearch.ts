@@ -0,0 +1,142 @@
+import { graph } from './graph';
+import { Node } from './types';
+
+/**
+ * How much a match in each field counts (names and aliases are what people type)
+ */
+const FIELD_WEIGHTS = {
+    name: 1.0,
+    alias: 1.0,
+    id: 0.9,
+    address: 0.7
+};
+
+export interface NodeSearchResult {
+    id: string;
+    name: string;
+    type: Node['type'];
+    lat: number | null;
+    lng: number | null;
+    score: number;
+    matched: string;
+    routes: string[];
+}
+
+export class NodeSearch {
+    /**
+     * Ranked, typo-tolerant search over node names, IDs, addresses and aliases
+     */
+    public search(query: string, limit: number = 10): NodeSearchResult[] {
+        const q = this.normalize(query);
+        if (!q) return [];
+
+        const results: NodeSearchResult[] = [];
+
+        graph.getAllNodes().forEach(node => {
+            let best = { score: 0, matched: '' };
+
+            const fields: [string, number][] = [
+                [node.name, FIELD_WEIGHTS.name],
+                [node.id, FIELD_WEIGHTS.id],
+                [node.gmaps_address, FIELD_WEIGHTS.address],
+                ...(node.aliases || []).map(alias => [alias, FIELD_WEIGHTS.alias] as [string, number])
+            ];
+
+            fields.forEach(([text, weight]) => {
+                const score = Math.round(this.scoreText(q, this.normalize(text)) * weight);
+                if (score > best.score) {
+                    best = { score, matched: text };
+                }
+            });
+
+            if (best.score > 0) {
+                results.push({
+                    id: node.id,
+                    name: node.name,
+                    type: node.type,
+                    lat: node.lat ?? null,
+                    lng: node.lng ?? null,
+                    score: best.score,
+                    matched: best.matched,
+                    routes: this.routesServing(node.id)
+                });
+            }
+        });
+
+        return results
+            .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+            .slice(0, limit);
+    }
+
+    /**
+     * 0-100: exact > prefix > word prefix > substring > close spelling
+     */
+    private scoreText(q: string, text: string): number {
+        if (!text) return 0;
+
+        // Spaces and hyphens are optional ("Rikabibazar" vs "Rikabi-Bazar")
+        const compactQ = q.replace(/ /g, '');
+        const compact = text.replace(/ /g, '');
+
+        if (compact === compactQ) return 100;
+        if (compact.startsWith(compactQ)) return 90 - Math.min(10, compact.length - compactQ.length);
+        if (text.split(' ').some(word => word.startsWith(q))) return 80;
+        if (compact.includes(compactQ)) return 65;
+
+        // Typos: compare against the whole text and against a same-length prefix (for autocomplete)
+        const allowed = compactQ.length <= 3 ? 0 : compactQ.length <= 6 ? 1 : 2;
+        if (allowed === 0) return 0;
+
+        const candidates = [compact, compact.slice(0, compactQ.length), ...text.split(' ')];
+        const distance = Math.min(...candidates.map(candidate => this.editDistance(compactQ, candidate)));
+
+        return distance <= allowed ? 55 - distance * 10 : 0;
+    }
+
+    /**
+     * Lowercase, Unicode-normalized, punctuation folded to single spaces
+     */
+    private normalize(text: string): string {
+        return text
+            .normalize('NFC')
+            .toLowerCase()
+            .replace(/[_\-,.'()\/]+/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Optimal string alignment distance (Levenshtein plus adjacent swaps)
+     */
+    private editDistance(a: string, b: string): number {
+        const rows = a.length + 1;
+        const cols = b.length + 1;
+        const d: number[][] = Array.from({ length: rows }, (_, i) => {
+            const row = new Array<number>(cols).fill(0);
+            row[0] = i;
+            return row;
+        });
+        for (let j = 0; j < cols; j++) d[0][j] = j;
+
+        for (let i = 1; i < rows; i++) {
+            for (let j = 1; j < cols; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                    d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+                }
+            }
+        }
+
+        return d[rows - 1][cols - 1];
+    }
+
+    private routesServing(nodeId: string): string[] {
+        return graph.getAllRoutes()
+            .filter(route => route.trips.some(trip => trip.stops.includes(nodeId)))
+            .map(route => route.route_id);
+    }
+}
+
+// Export singleton instance
+export const nodeSearch = new NodeSearch();
@@ -1,84 +1,442 @@
 import { graph } from './graph';
-import { distanceMatrixClient } from '../infra/distanceMatrixClient';
+import { disruptionService } from './disruptions';
+import { raptorPlanner } from './raptor';
+import { calendarService } from './calendar';
+import { geometryBuilder } from './geometry';
+import { accessPlanner } from './access';
+import { fareModel } from './fares';
+import { crowdingModel } from './crowding';
+import { routeRanker } from './ranking';
+import { localSegmentProvider } from '../infra/localSegmentProvider';
 import {
     RouteResponse,
     RouteOption,
     RouteLeg,
     Trip,
     Route,
+    PlanOptions,
+    PlanPoint,
+    RoutePreferences,
+    DistanceMatrixResult,
+    LocalSegmentSource,
     parseTime,
     timeToMinutes,
-    addMinutes,
+    legTimes,
+    serviceDateTime,
+    serviceMinutes,
     PathResult
 } from './types';
 
+// On board, only this many upcoming stops are searched as places to get off and continue
+const MAX_ALIGHT_STOPS = 3;
+
 export class RoutePlanner {
     /**
-     * Main entry point: Plan a route from origin to destination at given time
+     * Main entry point: Plan a route from origin to destination at given time.
+     * `requestTime` is a service-day time on `date` and may run past 24:00.
      */
     public async planRoute(
         from: string,
         to: string,
         requestTime: string,
-        currentRoute?: string
+        planOptions: PlanOptions = {}
     ): Promise<RouteResponse> {
-        console.log(`\n📍 Planning route: ${from} → ${to} at ${requestTime}`);
-
-        const options: RouteOption[] = [];
+        const arriveBy = planOptions.arriveBy || false;
+        const date = planOptions.date || calendarService.today();
+        const requestMin = timeToMinutes(parseTime(requestTime));
+        const requestAt = serviceDateTime(date, requestMin);
+        console.log(`\n📍 Planning route: ${from} → ${to} ${arriveBy ? 'arriving by' : 'at'} ${requestTime} on ${date}`);
 
         // Validate nodes
         if (!graph.hasNode(from) || !graph.hasNode(to)) {
-            return { from, to, requestTime, options: [] };
+            return { from, to, requestTime, requestAt, date, arriveBy, options: [], alerts: [] };
         }
 
         // Same origin and destination
         if (from === to) {
-            return { from, to, requestTime, options: [] };
+            return { from, to, requestTime, requestAt, date, arriveBy, options: [], alerts: [] };
         }
 
-        // Try all bus routes
-        const allRoutes = graph.getAllRoutes();
+        // Already on a bus: plan from its current position instead of from the stop
+        const onBoard = planOptions.currentRoute || planOptions.currentTrip
+            ? this.resolveCurrentTrip(from, requestMin, date, planOptions.currentRoute, planOptions.currentTrip)
+            : null;
+        if (onBoard) {
+            console.log(`🚌 On board ${onBoard.trip.trip_id} (${onBoard.route.route_id}), last stop ${from}`);
+        }
 
-        for (const route of allRoutes) {
-            // Try direct bus route
-            const directOption = await this.directBusRoute(route, from, to, requestTime);
-            if (directOption) {
-                options.push(directOption);
-            }
+        const avoidCrowded = planOptions.preferences?.avoidCrowded || false;
+        const options = onBoard
+            ? await this.onBoardOptions(onBoard.route, onBoard.trip, from, to, requestMin, date, avoidCrowded)
+            : await this.collectOptions(from, to, requestMin, arriveBy, date, avoidCrowded);
+
+        // Price local legs and estimate bus loads, then compare and classify routes
+        fareModel.apply(options, planOptions.fareType);
+        crowdingModel.attach(options, date);
+        const { options: finalOptions, filteredOut } = this.compareRoutes(options, planOptions.preferences);
+        geometryBuilder.attach(finalOptions);
+
+        console.log(`✓ Found ${finalOptions.length} route options`);
+        const response: RouteResponse = {
+            from,
+            to,
+            requestTime,
+            requestAt,
+            date,
+            arriveBy,
+            filteredOut,
+            options: finalOptions,
+            alerts: disruptionService.alertsFor(finalOptions, date)
+        };
+        if (onBoard) {
+            response.currentTrip = onBoard.trip.trip_id;
+        }
+        return response;
+    }
+
+    /**
+     * Plan between GPS positions and/or nodes: each position is snapped to its nearest
+     * nodes, every access/egress combination is searched and the best results are kept
+     */
+    public async planBetweenPoints(
+        origin: PlanPoint,
+        destination: PlanPoint,
+        requestTime: string,
+        planOptions: PlanOptions = {}
+    ): Promise<RouteResponse> {
+        if ('nodeId' in origin && 'nodeId' in destination) {
+            return this.planRoute(origin.nodeId, destination.nodeId, requestTime, planOptions);
+        }
+
+        const arriveBy = planOptions.arriveBy || false;
+        const date = planOptions.date || calendarService.today();
+        const from = accessPlanner.label(origin);
+        const to = accessPlanner.label(destination);
+        console.log(`\n📍 Planning route: ${from} → ${to} ${arriveBy ? 'arriving by' : 'at'} ${requestTime} on ${date}`);
+
+        const requestMin = timeToMinutes(parseTime(requestTime));
+        const options: RouteOption[] = [];
+
+        // Straight from point to point, skipping the network entirely
+        const fromPosition = accessPlanner.coordinates(origin);
+        const toPosition = accessPlanner.coordinates(destination);
+        if (fromPosition && toPosition) {
+            const leg = accessPlanner.connectingLeg(from, fromPosition, to, toPosition);
+            const departureMin = arriveBy ? requestMin - leg.durationMin! : requestMin;
+            Object.assign(leg, legTimes(date, departureMin, departureMin + leg.durationMin!));
+
+            options.push({
+                label: leg.mode === 'walk' ? 'Walk Only' : 'Local Transport Only',
+                category: 'fastest',
+                type: 'local_only',
+                transfers: 0,
+                totalTimeMin: leg.durationMin!,
+                totalCost: leg.cost!,
+                localTimeMin: leg.durationMin!,
+                localDistanceMeters: leg.distanceMeters!,
+                usesDistanceMatrix: false,
+                legs: [leg]
+            });
+        }
 
-            // Try bus + local hybrid
-            const hybridOption = await this.busToLocalRoute(route, from, to, requestTime);
-            if (hybridOption) {
-                options.push(hybridOption);
+        for (const access of accessPlanner.candidates(origin, 'access')) {
+            for (const egress of accessPlanner.candidates(destination, 'egress')) {
+                if (access.nodeId === egress.nodeId) continue; // Covered by the point-to-point option
+
+                // Shift the request time by the access (depart-at) or egress (arrive-by) leg
+                const innerMin = arriveBy
+                    ? requestMin - (egress.leg?.durationMin ?? 0)
+                    : requestMin + (access.leg?.durationMin ?? 0);
+
+                const innerOptions = await this.collectOptions(
+                    access.nodeId, egress.nodeId, innerMin, arriveBy, date, planOptions.preferences?.avoidCrowded);
+                innerOptions.forEach(option => {
+                    options.push(this.withAccessLegs(option, access.leg, egress.leg, innerMin, date));
+                });
             }
         }
 
-        // Try multi-leg transfers
-        const transferOptions = await this.findTransferRoutes(from, to, requestTime);
-        options.push(...transferOptions);
+        fareModel.apply(options, planOptions.fareType);
+        crowdingModel.attach(options, date);
+        const { options: finalOptions, filteredOut } = this.compareRoutes(options, planOptions.preferences);
+        geometryBuilder.attach(finalOptions);
+
+        console.log(`✓ Found ${finalOptions.length} route options`);
+        return {
+            from,
+            to,
+            requestTime,
+            requestAt: serviceDateTime(date, requestMin),
+            date,
+            arriveBy,
+            filteredOut,
+            options: finalOptions,
+            alerts: disruptionService.alertsFor(finalOptions, date)
+        };
+    }
+
+    /**
+     * Every candidate option between two nodes, before ranking. `requestMin` counts from
+     * midnight of `date`. Buses of the day before (still running past midnight) and the
+     * day after (a late request waiting for the morning) are searched when they run near
+     * the request (and kept if they finish within the rollover horizon); each bus search
+     * works in its own service day's minutes.
+     * With `avoidCrowded` the single-bus options may pick a later trip that is expected to be emptier.
+     */
+    private async collectOptions(
+        from: string,
+        to: string,
+        requestMin: number,
+        arriveBy: boolean,
+        date: string,
+        avoidCrowded: boolean = false
+    ): Promise<RouteOption[]> {
+        const options: RouteOption[] = [];
+
+        // Roads closed at the requested time are avoided by local legs
+        const closedEdges = disruptionService.closedEdges(date, requestMin);
+
+        for (const day of calendarService.serviceDays(date, requestMin, arriveBy)) {
+            const dayMin = requestMin - day.offsetMin;
+            const dayOptions: RouteOption[] = [];
+
+            // Try all bus routes, keeping only trips that run on this date and are not cancelled
+            const activeRoutes = disruptionService.getActiveRoutes(day.date);
+
+            for (const route of activeRoutes) {
+                // Try direct bus route
+                const directOption = await this.directBusRoute(route, from, to, dayMin, day.date, arriveBy, avoidCrowded);
+                if (directOption) {
+                    dayOptions.push(directOption);
+                }
+
+                // Try bus + local hybrid
+                const hybridOption = await this.busToLocalRoute(
+                    route, from, to, dayMin, day.date, arriveBy, closedEdges, avoidCrowded);
+                if (hybridOption) {
+                    dayOptions.push(hybridOption);
+                }
+            }
+
+            // Try multi-leg transfers
+            const transferOptions = this.findTransferRoutes(activeRoutes, from, to, dayMin, day.date, arriveBy);
+            dayOptions.push(...transferOptions);
+
+            options.push(...dayOptions.filter(option =>
+                day.offsetMin === 0 || option.totalTimeMin <= calendarService.rolloverHorizonMin));
+        }
 
         // Local-only fallback
-        const localOption = await this.localOnlyRoute(from, to);
+        const localOption = await this.localOnlyRoute(from, to, requestMin, arriveBy, date, closedEdges);
         if (localOption) {
             options.push(localOption);
         }
 
-        // Compare and classify routes
-        const finalOptions = this.compareRoutes(options);
+        return options;
+    }
 
-        console.log(`✓ Found ${finalOptions.length} route options`);
-        return { from, to, requestTime, options: finalOptions };
+    /**
+     * The trip the rider is on: the given trip, or the route's active trip whose
+     * scheduled time at the last passed stop is closest to the request time.
+     * Trips that do not run on `date` or are cancelled are never returned.
+     */
+    private resolveCurrentTrip(
+        from: string,
+        requestMin: number,
+        date: string,
+        routeId?: string,
+        tripId?: string
+    ): { route: Route; trip: Trip } | null {
+        const activeRoutes = disruptionService.getActiveRoutes(date);
+
+        if (tripId) {
+            const route = activeRoutes.find(r => r.trips.some(t => t.trip_id === tripId));
+            const trip = route?.trips.find(t => t.trip_id === tripId);
+            return trip && route && trip.stops.includes(from) ? { route, trip } : null;
+        }
+
+        const route = activeRoutes.find(r => r.route_id === routeId);
+        if (!route) return null;
+
+        let best: { route: Route; trip: Trip } | null = null;
+        let bestGap = Infinity;
+
+        for (const trip of route.trips) {
+            const fromIndex = trip.stops.indexOf(from);
+            if (fromIndex === -1 || fromIndex === trip.stops.length - 1) continue;
+
+            const gap = Math.abs(disruptionService.getStopTimes(route, trip, date)[fromIndex].departureMin - requestMin);
+            if (gap < bestGap) {
+                bestGap = gap;
+                best = { route, trip };
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Options for a rider already on a trip at `requestMin`: staying on costs nothing and
+     * needs no wait, so the stops still ahead of the bus are candidates to get off at and
+     * continue from. Only the MAX_ALIGHT_STOPS most promising of them (earliest arrival
+     * when finishing by local transport) get an onward search.
+     */
+    private async onBoardOptions(
+        route: Route,
+        trip: Trip,
+        from: string,
+        to: string,
+        requestMin: number,
+        date: string,
+        avoidCrowded: boolean = false
+    ): Promise<RouteOption[]> {
+        const options: RouteOption[] = [];
+        const stopTimes = disruptionService.getStopTimes(route, trip, date);
+        const fromIndex = trip.stops.indexOf(from);
+
+        // The bus cannot have left 'from' before its (live) departure there
+        const startMin = Math.max(requestMin, stopTimes[fromIndex].departureMin);
+
+        // Stops the bus still serves after the request time; skipped stops cannot be left at
+        const ahead: number[] = [];
+        for (let i = fromIndex + 1; i < trip.stops.length; i++) {
+            if (stopTimes[i].skipped || stopTimes[i].arrivalMin < startMin) continue;
+            ahead.push(i);
+            if (trip.stops[i] === to) break;
+        }
+
+        const rideLeg = (i: number): RouteLeg => ({
+            mode: 'bus',
+            route_id: route.route_id,
+            trip_id: trip.trip_id,
+            serviceDate: date,
+            from,
+            to: trip.stops[i],
+            ...legTimes(date, startMin, stopTimes[i].arrivalMin),
+            durationMin: stopTimes[i].arrivalMin - startMin,
+            cost: 0,
+            source: 'graph',
+            estimated: stopTimes[i].estimated,
+            timeSource: stopTimes[fromIndex].realtime ? 'realtime' : 'scheduled',
+            delayMin: stopTimes[fromIndex].departureDelayMin ?? 0,
+            onBoard: true
+        });
+
+        // Stay on all the way (listed first so it wins ties)
+        const lastIndex = ahead[ahead.length - 1];
+        if (lastIndex !== undefined && trip.stops[lastIndex] === to) {
+            ahead.pop();
+            options.push({
+                label: `Stay on ${route.name}`,
+                category: 'fastest',
+                type: 'direct',
+                transfers: 0,
+                totalTimeMin: stopTimes[lastIndex].arrivalMin - startMin,
+                totalCost: 0,
+                localTimeMin: 0,
+                localDistanceMeters: 0,
+                usesDistanceMatrix: false,
+                legs: [rideLeg(lastIndex)]
+            });
+        }
+
+        // Rank the other stops by arrival there plus the local trip on to the destination
+        const localPaths = graph.localShortestPathsTo(to, ['walk', 'local'], disruptionService.closedEdges(date, startMin));
+        const estimate = (i: number) => stopTimes[i].arrivalMin + (localPaths.get(trip.stops[i])?.totalTime ?? Infinity);
+        const alightIndexes = ahead
+            .sort((a, b) => estimate(a) - estimate(b))
+            .slice(0, MAX_ALIGHT_STOPS);
+
+        // Get off there and continue by another bus or local transport
+        for (const i of alightIndexes) {
+            const alightStop = trip.stops[i];
+            const alightMin = stopTimes[i].arrivalMin;
+            const onward = await this.collectOptions(alightStop, to, alightMin, false, date, avoidCrowded);
+
+            for (const option of onward) {
+                // Re-boarding the same bus is just staying on
+                if (option.legs.some(leg => leg.trip_id === trip.trip_id)) continue;
+
+                const boardsBus = option.legs.some(leg => leg.mode === 'bus');
+                options.push({
+                    ...option,
+                    label: `Get off at ${graph.getNode(alightStop)?.name || alightStop}`,
+                    type: boardsBus ? 'transfer' : 'direct',
+                    transfers: boardsBus ? option.transfers + 1 : 0,
+                    totalTimeMin: alightMin - startMin + option.totalTimeMin,
+                    legs: [rideLeg(i), ...option.legs]
+                });
+            }
+        }
+
+        return options;
+    }
+
+    /**
+     * Wrap a node-to-node option with the access leg before it and the egress leg after it
+     */
+    private withAccessLegs(
+        option: RouteOption,
+        accessLeg: RouteLeg | null,
+        egressLeg: RouteLeg | null,
+        innerMin: number,
+        date: string
+    ): RouteOption {
+        const legs = [...option.legs];
+        const extraLegs: RouteLeg[] = [];
+
+        if (accessLeg) {
+            // Arrive at the first stop just in time for the first leg
+            const startAt = legs[0].departureAt;
+            const startMin = startAt ? serviceMinutes(date, startAt) : innerMin;
+            legs.unshift({
+                ...accessLeg,
+                ...legTimes(date, startMin - accessLeg.durationMin!, startMin)
+            });
+            extraLegs.push(accessLeg);
+        }
+
+        if (egressLeg) {
+            const endAt = legs[legs.length - 1].arrivalAt;
+            const endMin = endAt ? serviceMinutes(date, endAt) : innerMin;
+            legs.push({
+                ...egressLeg,
+                ...legTimes(date, endMin, endMin + egressLeg.durationMin!)
+            });
+            extraLegs.push(egressLeg);
+        }
+
+        const extraTime = extraLegs.reduce((sum, leg) => sum + leg.durationMin!, 0);
+        const extraCost = extraLegs.reduce((sum, leg) => sum + leg.cost!, 0);
+        const extraDistance = extraLegs.reduce((sum, leg) => sum + leg.distanceMeters!, 0);
+
+        return {
+            ...option,
+            totalTimeMin: option.totalTimeMin + extraTime,
+            totalCost: option.totalCost + extraCost,
+            localTimeMin: option.localTimeMin + extraTime,
+            localDistanceMeters: option.localDistanceMeters + extraDistance,
+            legs
+        };
     }
 
     /**
      * Feature 1: Direct bus routing (single bus from origin to destination)
+     * Depart-at picks the earliest arrival; arrive-by picks the latest departure that is on time.
+     * With `avoidCrowded` a trip's expected crowding counts as extra minutes.
      */
     private async directBusRoute(
         route: Route,
         from: string,
         to: string,
-        requestTime: string
+        requestMin: number,
+        date: string,
+        arriveBy: boolean = false,
+        avoidCrowded: boolean = false
     ): Promise<RouteOption | null> {
+        let bestOption: RouteOption | null = null;
+        let minTotalTime = Infinity;
+
         // Find trips that serve both stops
         for (const trip of route.trips) {
             const fromIndex = trip.stops.indexOf(from);
@@ -89,47 +447,50 @@ export class RoutePlanner {
                 continue;
             }
 
-            // Calculate departure time from origin
-            const hopsBefore = fromIndex;
-            const tripStart = parseTime(trip.departure_time);
-            const tripStartMin = timeToMinutes(tripStart);
-
-            // Estimate time to reach 'from' stop
-            const timeToFrom = hopsBefore * 5; // 5 min average per hop
-            const departureMin = tripStartMin + timeToFrom;
+            // Look up departure and arrival from the trip's stop-time table
+            const stopTimes = disruptionService.getStopTimes(route, trip, date);
+            if (stopTimes[fromIndex].skipped || stopTimes[toIndex].skipped) {
+                continue;
+            }
+            const departureMin = stopTimes[fromIndex].departureMin;
+            const arrivalMin = stopTimes[toIndex].arrivalMin;
 
-            // Check if this departure is after requested time
-            const requestMin = timeToMinutes(parseTime(requestTime));
-            if (departureMin < requestMin) {
+            // Depart-at: leave after the requested time; arrive-by: arrive no later than it
+            if (arriveBy ? arrivalMin > requestMin : departureMin < requestMin) {
                 continue;
             }
 
-            // Calculate travel time and arrival
-            const hops = toIndex - fromIndex;
-            const travelTime = hops * 5; // 5 min average per hop
-            const arrivalTime = addMinutes(trip.departure_time, timeToFrom + travelTime);
-            const departureTime = addMinutes(trip.departure_time, timeToFrom);
+            const travelTime = arrivalMin - departureMin;
+            const totalTime = arriveBy ? requestMin - departureMin : arrivalMin - requestMin;
+            const crowdingMin = avoidCrowded ? crowdingModel.penaltyMin(crowdingModel.estimate(trip, fromIndex, date)) : 0;
+            if (totalTime + crowdingMin >= minTotalTime) {
+                continue;
+            }
+            minTotalTime = totalTime + crowdingMin;
 
             // Create route option
             const leg: RouteLeg = {
                 mode: 'bus',
                 route_id: route.route_id,
                 trip_id: trip.trip_id,
+                serviceDate: date,
                 from,
                 to,
-                departure: departureTime,
-                arrival: arrivalTime,
+                ...legTimes(date, departureMin, arrivalMin),
                 durationMin: travelTime,
                 cost: 0,
-                source: 'graph'
+                source: 'graph',
+                estimated: stopTimes[toIndex].estimated,
+                timeSource: stopTimes[fromIndex].realtime ? 'realtime' : 'scheduled',
+                delayMin: stopTimes[fromIndex].departureDelayMin ?? 0
             };
 
-            return {
+            bestOption = {
                 label: `${route.name} Direct`,
                 category: 'fastest',
                 type: 'direct',
                 transfers: 0,
-                totalTimeMin: travelTime + (departureMin - requestMin),
+                totalTimeMin: totalTime,
                 totalCost: 0,
                 localTimeMin: 0,
                 localDistanceMeters: 0,
@@ -138,7 +499,7 @@ export class RoutePlanner {
             };
         }
 
-        return null;
+        return bestOption;
     }
 
     /**
@@ -148,69 +509,90 @@ export class RoutePlanner {
         route: Route,
         from: string,
         to: string,
-        requestTime: string
+        requestMin: number,
+        date: string,
+        arriveBy: boolean = false,
+        closedEdges: Set<string> = new Set(),
+        avoidCrowded: boolean = false
     ): Promise<RouteOption | null> {
         let bestOption: RouteOption | null = null;
         let minTotalTime = Infinity;
 
+        // One reverse search gives the local path from every drop-off stop
+        const localPaths = graph.localShortestPathsTo(to, undefined, closedEdges);
+        // Stops whose only known local paths are closed are not handed to the providers either
+        const openPaths = closedEdges.size > 0 ? graph.localShortestPathsTo(to) : localPaths;
+        // External lookups per drop-off stop (shared by all trips of the route)
+        const externalSegments = new Map<string, Promise<DistanceMatrixResult>>();
+
         for (const trip of route.trips) {
             const fromIndex = trip.stops.indexOf(from);
             if (fromIndex === -1) continue;
 
+            const stopTimes = disruptionService.getStopTimes(route, trip, date);
+            if (stopTimes[fromIndex].skipped) continue;
+            const crowdingMin = avoidCrowded ? crowdingModel.penaltyMin(crowdingModel.estimate(trip, fromIndex, date)) : 0;
+
             // Try each possible drop-off stop after 'from'
             for (let i = fromIndex + 1; i < trip.stops.length; i++) {
                 const dropOffStop = trip.stops[i];
                 if (dropOffStop === to) continue; // Direct route handled separately
+                if (stopTimes[i].skipped) continue; // The bus does not stop here
 
                 // Calculate local segment from drop-off to destination
-                const localPath = graph.localShortestPath(dropOffStop, to);
-                let localTime = localPath.totalTime;
-                let localCost = localPath.totalCost;
-                let localDistance = 0;
-                let usedDM = false;
-
-                // If no local path in graph, try Distance Matrix
-                if (!localPath.found) {
-                    const dmResult = await distanceMatrixClient.getLocalSegment(dropOffStop, to, 'driving');
-                    if (dmResult.ok) {
-                        localTime = Math.round((dmResult.durationSeconds || 0) / 60);
-                        localDistance = dmResult.distanceMeters || 0;
-                        localCost = Math.round(localDistance / 100) * 2; // Estimate: 2 BDT per 100m
-                        usedDM = true;
+                const localPath = localPaths.get(dropOffStop);
+                let localTime = localPath?.totalTime ?? Infinity;
+                let localCost = localPath?.totalCost ?? 0;
+                let localDistance = localPath ? this.pathDistance(localPath) : 0;
+                let segmentSource: LocalSegmentSource | null = null;
+
+                // If no local path in graph, ask the local segment providers
+                if (!localPath) {
+                    if (openPaths.has(dropOffStop)) continue;
+                    if (!externalSegments.has(dropOffStop)) {
+                        externalSegments.set(dropOffStop, localSegmentProvider.getLocalSegment(dropOffStop, to, 'driving'));
+                    }
+                    const segment = await externalSegments.get(dropOffStop)!;
+                    if (segment.ok) {
+                        localTime = Math.round((segment.durationSeconds || 0) / 60);
+                        localDistance = segment.distanceMeters || 0;
+                        localCost = 0; // Priced from the distance by fareModel.apply
+                        segmentSource = segment.source || 'distance_matrix';
                     } else {
                         continue; // Skip this drop-off point
                     }
                 }
 
                 // Calculate bus segment
-                const hopsBefore = fromIndex;
-                const busHops = i - fromIndex;
-                const timeToFrom = hopsBefore * 5;
-                const busTravelTime = busHops * 5;
-
-                const tripStartMin = timeToMinutes(parseTime(trip.departure_time));
-                const departureMin = tripStartMin + timeToFrom;
-                const requestMin = timeToMinutes(parseTime(requestTime));
+                const departureMin = stopTimes[fromIndex].departureMin;
+                const dropOffMin = stopTimes[i].arrivalMin;
+                const busTravelTime = dropOffMin - departureMin;
 
-                if (departureMin < requestMin) continue;
+                // Depart-at: leave after the requested time; arrive-by: finish the local leg by then
+                if (arriveBy ? dropOffMin + localTime > requestMin : departureMin < requestMin) continue;
 
                 const waitTime = departureMin - requestMin;
-                const totalTime = waitTime + busTravelTime + localTime;
+                const totalTime = arriveBy
+                    ? requestMin - departureMin
+                    : waitTime + busTravelTime + localTime;
 
-                if (totalTime < minTotalTime) {
-                    minTotalTime = totalTime;
+                if (totalTime + crowdingMin < minTotalTime) {
+                    minTotalTime = totalTime + crowdingMin;
 
                     const busLeg: RouteLeg = {
                         mode: 'bus',
                         route_id: route.route_id,
                         trip_id: trip.trip_id,
+                        serviceDate: date,
                         from,
                         to: dropOffStop,
-                        departure: addMinutes(trip.departure_time, timeToFrom),
-                        arrival: addMinutes(trip.departure_time, timeToFrom + busTravelTime),
+                        ...legTimes(date, departureMin, dropOffMin),
                         durationMin: busTravelTime,
                         cost: 0,
-                        source: 'graph'
+                        source: 'graph',
+                        estimated: stopTimes[i].estimated,
+                        timeSource: stopTimes[fromIndex].realtime ? 'realtime' : 'scheduled',
+                        delayMin: stopTimes[fromIndex].departureDelayMin ?? 0
                     };
 
                     const localLeg: RouteLeg = {
@@ -218,10 +600,12 @@ export class RoutePlanner {
                         submode: 'driving',
                         from: dropOffStop,
                         to,
+                        ...legTimes(date, dropOffMin, dropOffMin + localTime),
                         durationMin: localTime,
                         distanceMeters: localDistance,
                         cost: localCost,
-                        source: usedDM ? 'distance_matrix' : 'graph'
+                        source: segmentSource || 'graph',
+                        estimated: segmentSource === 'estimate'
                     };
 
                     bestOption = {
@@ -232,8 +616,8 @@ export class RoutePlanner {
                         totalTimeMin: totalTime,
                         totalCost: localCost,
                         localTimeMin: localTime,
-                        localDistanceMeters: localDistance,
-                        usesDistanceMatrix: usedDM,
+                        localDistanceMeters: localDistance ?? 0,
+                        usesDistanceMatrix: segmentSource === 'distance_matrix',
                         legs: [busLeg, localLeg]
                     };
                 }
@@ -244,115 +628,79 @@ export class RoutePlanner {
     }
 
     /**
-     * Feature 3: Bus transfers (multi-leg journeys)
+     * Feature 3: Bus transfers (round-based search, any number of transfers)
      */
-    private async findTransferRoutes(
+    private findTransferRoutes(
+        routes: Route[],
         from: string,
         to: string,
-        requestTime: string
-    ): Promise<RouteOption[]> {
-        const options: RouteOption[] = [];
-        const allRoutes = graph.getAllRoutes();
-
-        // Try all route pairs
-        for (const route1 of allRoutes) {
-            for (const route2 of allRoutes) {
-                if (route1.route_id === route2.route_id) continue;
-
-                // Find common transfer points
-                const transferPoints = this.findTransferPoints(route1, route2);
-
-                for (const transferNode of transferPoints) {
-                    const option = await this.createTransferRoute(
-                        route1, route2, from, to, transferNode, requestTime
-                    );
-                    if (option) {
-                        options.push(option);
-                    }
-                }
-            }
-        }
-
-        return options;
-    }
-
-    /**
-     * Find shared stops between two routes
-     */
-    private findTransferPoints(route1: Route, route2: Route): string[] {
-        const stops1 = new Set<string>();
-        route1.trips.forEach(trip => trip.stops.forEach(stop => stops1.add(stop)));
-
-        const stops2 = new Set<string>();
-        route2.trips.forEach(trip => trip.stops.forEach(stop => stops2.add(stop)));
+        requestMin: number,
+        date: string,
+        arriveBy: boolean = false
+    ): RouteOption[] {
+        const journeys = arriveBy
+            ? raptorPlanner.searchArriveBy(routes, from, to, requestMin, date)
+            : raptorPlanner.search(routes, from, to, requestMin, date);
+
+        // Hours of waiting before setting off (after arriving, when arriving by) is not an option
+        const usable = journeys.filter(journey => (arriveBy
+            ? requestMin - journey.arrivalMin
+            : journey.departureMin - requestMin) <= calendarService.rolloverHorizonMin);
+
+        return usable.map(journey => {
+            const localLegs = journey.legs.filter(leg => leg.mode !== 'bus');
+            const busLegs = journey.legs.filter(leg => leg.mode === 'bus');
+            const transferStops = busLegs.slice(1).map(leg => graph.getNode(leg.from)?.name || leg.from);
 
-        return Array.from(stops1).filter(stop => stops2.has(stop));
+            return {
+                label: journey.transfers > 0
+                    ? `Transfer at ${transferStops.join(', ')}`
+                    : `${graph.getRoute(busLegs[0].route_id!)?.name} ${localLegs.length > 0 ? '+ Local' : 'Direct'}`,
+                category: 'fastest',
+                type: journey.transfers > 0 ? 'transfer' : 'direct',
+                transfers: journey.transfers,
+                totalTimeMin: arriveBy ? requestMin - journey.departureMin : journey.arrivalMin - requestMin,
+                totalCost: journey.legs.reduce((sum, leg) => sum + (leg.cost || 0), 0),
+                localTimeMin: localLegs.reduce((sum, leg) => sum + (leg.durationMin || 0), 0),
+                localDistanceMeters: localLegs.reduce((sum, leg) => sum + (leg.distanceMeters || 0), 0),
+                usesDistanceMatrix: false,
+                legs: journey.legs
+            };
+        });
     }
 
     /**
-     * Create a transfer route option
+     * Feature 5: Local-only fallback (missed bus scenario)
+     * In arrive-by mode the legs are timed backwards from the requested arrival.
      */
-    private async createTransferRoute(
-        route1: Route,
-        route2: Route,
+    private async localOnlyRoute(
         from: string,
         to: string,
-        transferNode: string,
-        requestTime: string
+        requestMin: number,
+        arriveBy: boolean,
+        date: string,
+        closedEdges: Set<string> = new Set()
     ): Promise<RouteOption | null> {
-        // Find trip on route1 from 'from' to 'transferNode'
-        const leg1 = await this.directBusRoute(route1, from, transferNode, requestTime);
-        if (!leg1) return null;
-
-        // Calculate arrival time at transfer point
-        const arrivalAtTransfer = leg1.legs[0].arrival!;
-
-        // Find trip on route2 from 'transferNode' to 'to'
-        const leg2 = await this.directBusRoute(route2, transferNode, to, arrivalAtTransfer);
-        if (!leg2) return null;
-
-        // Check wait time at transfer stop
-        const arrivalMin = timeToMinutes(parseTime(arrivalAtTransfer));
-        const departureMin = timeToMinutes(parseTime(leg2.legs[0].departure!));
-        const waitTime = departureMin - arrivalMin;
-
-        // Only suggest if wait time is reasonable (≤ 15 min)
-        if (waitTime < 0 || waitTime > 15) {
-            return null;
-        }
-
-        const totalTime = leg1.totalTimeMin + waitTime + leg2.legs[0].durationMin!;
-
-        return {
-            label: `Transfer at ${graph.getNode(transferNode)?.name}`,
-            category: 'fastest',
-            type: 'transfer',
-            transfers: 1,
-            totalTimeMin: totalTime,
-            totalCost: 0,
-            localTimeMin: 0,
-            localDistanceMeters: 0,
-            usesDistanceMatrix: false,
-            legs: [...leg1.legs, ...leg2.legs]
-        };
-    }
-
-    /**
-     * Feature 5: Local-only fallback (missed bus scenario)
-     */
-    private async localOnlyRoute(from: string, to: string): Promise<RouteOption | null> {
         // Try local shortest path first
-        const localPath = graph.localShortestPath(from, to);
+        const localPath = graph.localShortestPath(from, to, undefined, closedEdges);
 
         if (localPath.found) {
-            const legs: RouteLeg[] = localPath.edges.map((edge, idx) => ({
-                mode: edge.mode,
-                from: localPath.path[idx],
-                to: localPath.path[idx + 1],
-                durationMin: edge.time_min,
-                cost: edge.cost,
-                source: 'graph'
-            }));
+            let legStartMin = arriveBy ? requestMin - localPath.totalTime : requestMin;
+            const legs: RouteLeg[] = localPath.edges.map((edge, idx) => {
+                const departureMin = legStartMin;
+                legStartMin += edge.time_min;
+
+                return {
+                    mode: edge.mode,
+                    from: localPath.path[idx],
+                    to: localPath.path[idx + 1],
+                    ...legTimes(date, departureMin, legStartMin),
+                    durationMin: edge.time_min,
+                    distanceMeters: edge.distance_meters,
+                    cost: edge.cost,
+                    source: 'graph'
+                };
+            });
 
             return {
                 label: 'Local Transport Only',
@@ -362,24 +710,33 @@ export class RoutePlanner {
                 totalTimeMin: localPath.totalTime,
                 totalCost: localPath.totalCost,
                 localTimeMin: localPath.totalTime,
-                localDistanceMeters: 0,
+                localDistanceMeters: this.pathDistance(localPath) ?? 0,
                 usesDistanceMatrix: false,
                 legs
             };
         }
 
-        // Fallback to Distance Matrix
-        const dmResult = await distanceMatrixClient.getLocalSegment(from, to, 'driving');
-        if (dmResult.ok) {
+        // Fallback to the local segment providers, unless every known way is closed
+        if (closedEdges.size > 0 && graph.localShortestPath(from, to).found) {
+            return null;
+        }
+        const segment = await localSegmentProvider.getLocalSegment(from, to, 'driving');
+        if (segment.ok) {
+            const source = segment.source || 'distance_matrix';
+            const durationMin = Math.round((segment.durationSeconds || 0) / 60);
+            const departureMin = arriveBy ? requestMin - durationMin : requestMin;
+
             const leg: RouteLeg = {
                 mode: 'local',
                 submode: 'driving',
                 from,
                 to,
-                durationMin: Math.round((dmResult.durationSeconds || 0) / 60),
-                distanceMeters: dmResult.distanceMeters || 0,
-                cost: Math.round((dmResult.distanceMeters || 0) / 100) * 2,
-                source: 'distance_matrix'
+                ...legTimes(date, departureMin, departureMin + durationMin),
+                durationMin,
+                distanceMeters: segment.distanceMeters || 0,
+                cost: 0, // Priced from the distance by fareModel.apply
+                source,
+                estimated: source === 'estimate'
             };
 
             return {
@@ -391,7 +748,7 @@ export class RoutePlanner {
                 totalCost: leg.cost!,
                 localTimeMin: leg.durationMin!,
                 localDistanceMeters: leg.distanceMeters!,
-                usesDistanceMatrix: true,
+                usesDistanceMatrix: source === 'distance_matrix',
                 legs: [leg]
             };
         }
@@ -400,77 +757,42 @@ export class RoutePlanner {
     }
 
     /**
-     * Feature 4: Compare routes and classify as FASTEST vs LEAST_LOCAL
+     * Length of a graph path; undefined if any edge has no distance
      */
-    private compareRoutes(options: RouteOption[]): RouteOption[] {
-        if (options.length === 0) return [];
-
-        // Remove duplicates
-        const unique = this.deduplicateOptions(options);
-
-        // Find fastest
-        let fastest = unique[0];
-        for (const option of unique) {
-            if (option.totalTimeMin < fastest.totalTimeMin) {
-                fastest = option;
-            }
-        }
-
-        // Find least local
-        let leastLocal = unique[0];
-        for (const option of unique) {
-            if (option.localTimeMin < leastLocal.localTimeMin) {
-                leastLocal = option;
-            }
-        }
-
-        // Mark categories
-        const result: RouteOption[] = [];
-        const addedIds = new Set<string>();
-
-        if (fastest) {
-            fastest.category = 'fastest';
-            fastest.label = 'Fastest Route';
-            result.push(fastest);
-            addedIds.add(this.getOptionId(fastest));
-        }
-
-        if (leastLocal && this.getOptionId(leastLocal) !== this.getOptionId(fastest)) {
-            leastLocal.category = 'least_local';
-            leastLocal.label = 'Least Local Transport';
-            result.push(leastLocal);
-        }
-
-        // Add other options if we have less than 3
-        for (const option of unique) {
-            if (result.length >= 3) break;
-            const id = this.getOptionId(option);
-            if (!addedIds.has(id)) {
-                result.push(option);
-                addedIds.add(id);
-            }
-        }
+    private pathDistance(path: PathResult): number | undefined {
+        if (path.edges.some(edge => edge.distance_meters === undefined)) return undefined;
+        return path.edges.reduce((sum, edge) => sum + edge.distance_meters!, 0);
+    }
 
-        return result;
+    /**
+     * Feature 4: Drop duplicates, then rank by the rider's preferences (Pareto front first)
+     */
+    private compareRoutes(
+        options: RouteOption[],
+        preferences: RoutePreferences = {}
+    ): { options: RouteOption[]; filteredOut: number } {
+        return routeRanker.rank(this.deduplicateOptions(options), preferences);
     }
 
     private getOptionId(option: RouteOption): string {
         return option.legs.map(leg => `${leg.from}-${leg.to}-${leg.mode}`).join('|');
     }
 
+    /**
+     * Same legs, different trips or times: keep the faster one
+     */
     private deduplicateOptions(options: RouteOption[]): RouteOption[] {
-        const seen = new Set<string>();
-        const result: RouteOption[] = [];
+        const best = new Map<string, RouteOption>();
 
         for (const option of options) {
             const id = this.getOptionId(option);
-            if (!seen.has(id)) {
-                seen.add(id);
-                result.push(option);
+            const current = best.get(id);
+            if (!current || option.totalTimeMin < current.totalTimeMin) {
+                best.set(id, option);
             }
         }
 
-        return result;
+        return [...best.values()];
     }
 }
 
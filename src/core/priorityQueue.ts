@@ -0,0 +1,69 @@
+/**
+ * Binary min-heap keyed by a numeric priority
+ */
+export class PriorityQueue<T> {
+    private heap: { item: T; priority: number }[] = [];
+
+    public get size(): number {
+        return this.heap.length;
+    }
+
+    public isEmpty(): boolean {
+        return this.heap.length === 0;
+    }
+
+    /**
+     * Insert an item (O(log n))
+     */
+    public push(item: T, priority: number): void {
+        this.heap.push({ item, priority });
+        this.siftUp(this.heap.length - 1);
+    }
+
+    /**
+     * Remove and return the item with the lowest priority (O(log n))
+     */
+    public pop(): { item: T; priority: number } | undefined {
+        if (this.heap.length === 0) {
+            return undefined;
+        }
+
+        const top = this.heap[0];
+        const last = this.heap.pop()!;
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+            this.siftDown(0);
+        }
+        return top;
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.heap[parent].priority <= this.heap[index].priority) break;
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        const length = this.heap.length;
+
+        while (true) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let smallest = index;
+
+            if (left < length && this.heap[left].priority < this.heap[smallest].priority) smallest = left;
+            if (right < length && this.heap[right].priority < this.heap[smallest].priority) smallest = right;
+            if (smallest === index) break;
+
+            this.swap(index, smallest);
+            index = smallest;
+        }
+    }
+
+    private swap(a: number, b: number): void {
+        [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+    }
+}
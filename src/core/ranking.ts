@@ -0,0 +1,141 @@
+import { crowdingModel } from './crowding';
+import {
+    RouteOption,
+    RoutePreferences,
+    RankingCriterion
+} from './types';
+
+const MIN_OPTIONS = 3;              // Pad a small Pareto front with the best dominated options
+
+/**
+ * Weighted score is in minute-equivalents: by default 1 BDT is worth half a minute
+ * and a walking minute counts double (once as time, once as walking)
+ */
+const DEFAULT_WEIGHTS = { time: 1, cost: 0.5, walk: 1 };
+
+/**
+ * Label for an option that is best on a criterion, in order of precedence
+ */
+const WIN_LABELS: [RankingCriterion, string][] = [
+    ['time', 'Fastest Route'],
+    ['local', 'Least Local Transport'],
+    ['cost', 'Cheapest Route'],
+    ['walk', 'Least Walking'],
+    ['transfers', 'Fewest Transfers']
+];
+
+export class RouteRanker {
+    /**
+     * Drop options that break a hard limit, keep the Pareto front over time, cost,
+     * walking, local transport and transfers (and crowding with avoidCrowded), and
+     * order it by weighted score
+     */
+    public rank(
+        options: RouteOption[],
+        preferences: RoutePreferences = {}
+    ): { options: RouteOption[]; filteredOut: number } {
+        const allowed = options.filter(option => this.withinLimits(option, preferences));
+        const filteredOut = options.length - allowed.length;
+        if (allowed.length === 0) return { options: [], filteredOut };
+
+        allowed.forEach(option => {
+            option.score = this.score(option, preferences);
+        });
+
+        const byPreference = (a: RouteOption, b: RouteOption) =>
+            (preferences.minimizeTransfers ? a.transfers - b.transfers : 0) || a.score! - b.score!;
+
+        const front = allowed.filter(option => !allowed.some(other => this.dominates(other, option, preferences)));
+        const dominated = allowed.filter(option => !front.includes(option));
+
+        const result = [
+            ...front.sort(byPreference),
+            ...dominated.sort(byPreference).slice(0, Math.max(0, MIN_OPTIONS - front.length))
+        ];
+
+        this.markWins(result);
+        return { options: result, filteredOut };
+    }
+
+    private withinLimits(option: RouteOption, preferences: RoutePreferences): boolean {
+        if (preferences.maxWalkMin !== undefined && this.value(option, 'walk') > preferences.maxWalkMin) return false;
+        if (preferences.maxCost !== undefined && option.totalCost > preferences.maxCost) return false;
+        if (preferences.avoidLocal && option.legs.some(leg => leg.mode === 'local')) return false;
+        return true;
+    }
+
+    private score(option: RouteOption, preferences: RoutePreferences): number {
+        const weights = preferences.weights || {};
+        const score = (weights.time ?? DEFAULT_WEIGHTS.time) * option.totalTimeMin +
+            (weights.cost ?? DEFAULT_WEIGHTS.cost) * option.totalCost +
+            (weights.walk ?? DEFAULT_WEIGHTS.walk) * this.value(option, 'walk') +
+            (preferences.avoidCrowded ? this.crowdingPenalty(option) : 0);
+
+        return Math.round(score * 10) / 10;
+    }
+
+    private crowdingPenalty(option: RouteOption): number {
+        return option.legs.reduce((sum, leg) => sum + crowdingModel.penaltyMin(leg.load), 0);
+    }
+
+    /**
+     * a is no worse than b on every criterion and better on at least one
+     */
+    private dominates(a: RouteOption, b: RouteOption, preferences: RoutePreferences): boolean {
+        const values = (option: RouteOption) => [
+            ...WIN_LABELS.map(([criterion]) => this.value(option, criterion)),
+            ...(preferences.avoidCrowded ? [this.crowdingPenalty(option)] : [])
+        ];
+        const aValues = values(a);
+        const bValues = values(b);
+        return aValues.every((value, i) => value <= bValues[i]) &&
+            aValues.some((value, i) => value < bValues[i]);
+    }
+
+    /**
+     * Record which criteria each option is (jointly) best on and label/categorise it accordingly.
+     * A criterion every option ties on is not a win, unless there is only one option.
+     */
+    private markWins(options: RouteOption[]): void {
+        options.forEach(option => {
+            option.wins = WIN_LABELS
+                .map(([criterion]) => criterion)
+                .filter(criterion => {
+                    const mine = this.value(option, criterion);
+                    return options.every(other => mine <= this.value(other, criterion)) &&
+                        (options.length === 1 || options.some(other => mine < this.value(other, criterion)));
+                });
+        });
+
+        // Each win label goes to the best-scored option holding it; the others keep their own label
+        const usedLabels = new Set<string>();
+        options.forEach(option => {
+            const wins = option.wins!;
+            const label = WIN_LABELS.find(([criterion, text]) => wins.includes(criterion) && !usedLabels.has(text));
+            if (label) {
+                option.label = label[1];
+                usedLabels.add(label[1]);
+            }
+
+            option.category = wins.includes('time') && wins.includes('local') ? 'both'
+                : wins.includes('time') ? 'fastest'
+                : wins.includes('local') ? 'least_local'
+                : 'alternative';
+        });
+    }
+
+    private value(option: RouteOption, criterion: RankingCriterion): number {
+        switch (criterion) {
+            case 'time': return option.totalTimeMin;
+            case 'cost': return option.totalCost;
+            case 'local': return option.localTimeMin;
+            case 'transfers': return option.transfers;
+            case 'walk': return option.legs
+                .filter(leg => leg.mode === 'walk')
+                .reduce((sum, leg) => sum + (leg.durationMin || 0), 0);
+        }
+    }
+}
+
+// Export singleton instance
+export const routeRanker = new RouteRanker();
@@ -0,0 +1,528 @@
+import { graph, edgeKey } from './graph';
+import { disruptionService } from './disruptions';
+import {
+    Route,
+    Trip,
+    TripStopTime,
+    EdgeInfo,
+    Journey,
+    RouteLeg,
+    legTimes
+} from './types';
+
+const DEFAULT_MAX_ROUNDS = 4; // Up to 3 transfers
+
+interface PatternTrip {
+    route: Route;
+    trip: Trip;
+    times: TripStopTime[];
+}
+
+/**
+ * Trips of one route that share the exact same stop sequence
+ */
+interface Pattern {
+    stops: string[];
+    trips: PatternTrip[];
+}
+
+/**
+ * `timeMin` is the arrival time in a forward search and the latest departure
+ * time in an arrive-by search. Foot labels point at `viaStop`: the stop walked
+ * from (forward) or walked to (arrive-by).
+ */
+interface BusLabel {
+    kind: 'bus';
+    round: number;
+    timeMin: number;
+    patternTrip: PatternTrip;
+    boardPos: number;
+    alightPos: number;
+}
+
+interface FootLabel {
+    kind: 'foot';
+    round: number;
+    timeMin: number;
+    viaStop: string;
+    edge: EdgeInfo;
+}
+
+interface StartLabel {
+    kind: 'start';
+    round: number;
+    timeMin: number;
+}
+
+type Label = BusLabel | FootLabel | StartLabel;
+
+export class RaptorPlanner {
+    /**
+     * Round-based earliest-arrival search (RAPTOR). Round k finds the best
+     * arrivals using k buses; footpaths (walk/local edges) are relaxed after
+     * every round, skipping edges closed at the departure time. Only trips in
+     * `routes` are used. Returns the Pareto set over arrival time and transfers.
+     */
+    public search(
+        routes: Route[],
+        from: string,
+        to: string,
+        departureMin: number,
+        date: string,
+        maxRounds: number = DEFAULT_MAX_ROUNDS
+    ): Journey[] {
+        const patternsByStop = this.indexPatterns(this.buildPatterns(routes, date));
+        const closedEdges = disruptionService.closedEdges(date, departureMin);
+
+        // labels[k] holds the best arrival at each stop using at most k buses
+        const labels: Map<string, Label>[] = [new Map()];
+        const best: Map<string, number> = new Map();
+
+        labels[0].set(from, { kind: 'start', round: 0, timeMin: departureMin });
+        best.set(from, departureMin);
+
+        let marked = new Set<string>([from]);
+        this.relaxFootpaths(labels[0], best, marked, to, 0, closedEdges);
+
+        const journeys: Journey[] = [];
+
+        for (let round = 1; round <= maxRounds && marked.size > 0; round++) {
+            const previous = labels[round - 1];
+            const current = new Map(previous);
+            labels.push(current);
+
+            // Earliest marked position per pattern
+            const queue = new Map<Pattern, number>();
+            marked.forEach(stop => {
+                (patternsByStop.get(stop) || []).forEach(pattern => {
+                    const pos = pattern.stops.indexOf(stop);
+                    const queued = queue.get(pattern);
+                    if (queued === undefined || pos < queued) {
+                        queue.set(pattern, pos);
+                    }
+                });
+            });
+
+            const newlyMarked = new Set<string>();
+
+            queue.forEach((startPos, pattern) => {
+                let boarded: PatternTrip | null = null;
+                let boardPos = -1;
+
+                for (let pos = startPos; pos < pattern.stops.length; pos++) {
+                    const stop = pattern.stops[pos];
+
+                    // Alight here if it improves on anything seen so far (and the bus stops here)
+                    if (boarded && !boarded.times[pos].skipped) {
+                        const arrivalMin = boarded.times[pos].arrivalMin;
+                        const bound = Math.min(best.get(stop) ?? Infinity, best.get(to) ?? Infinity);
+                        if (arrivalMin < bound) {
+                            current.set(stop, {
+                                kind: 'bus',
+                                round,
+                                timeMin: arrivalMin,
+                                patternTrip: boarded,
+                                boardPos,
+                                alightPos: pos
+                            });
+                            best.set(stop, arrivalMin);
+                            newlyMarked.add(stop);
+                        }
+                    }
+
+                    // Catch an earlier trip if we reached this stop in the previous round
+                    const reached = previous.get(stop);
+                    if (reached && (!boarded || reached.timeMin <= boarded.times[pos].departureMin)) {
+                        const candidate = this.earliestTrip(pattern, pos, reached.timeMin);
+                        if (candidate && (!boarded || candidate.times[pos].departureMin < boarded.times[pos].departureMin)) {
+                            boarded = candidate;
+                            boardPos = pos;
+                        }
+                    }
+                }
+            });
+
+            this.relaxFootpaths(current, best, newlyMarked, to, round, closedEdges);
+            marked = newlyMarked;
+
+            // Only rounds that improved the destination add a Pareto-optimal journey
+            const target = current.get(to);
+            if (target && target.round === round) {
+                const journey = this.reconstruct(labels, to, date);
+                if (journey) {
+                    journeys.push(journey);
+                }
+            }
+        }
+
+        return journeys;
+    }
+
+    /**
+     * Arrive-by variant: rounds run backwards from the destination and keep
+     * the latest departure from each stop that still arrives by `arrivalMin`.
+     * Returns the Pareto set over departure time and transfers.
+     */
+    public searchArriveBy(
+        routes: Route[],
+        from: string,
+        to: string,
+        arrivalMin: number,
+        date: string,
+        maxRounds: number = DEFAULT_MAX_ROUNDS
+    ): Journey[] {
+        const patternsByStop = this.indexPatterns(this.buildPatterns(routes, date));
+        const closedEdges = disruptionService.closedEdges(date, arrivalMin);
+
+        // labels[k] holds the latest departure from each stop using at most k buses
+        const labels: Map<string, Label>[] = [new Map()];
+        const best: Map<string, number> = new Map();
+
+        labels[0].set(to, { kind: 'start', round: 0, timeMin: arrivalMin });
+        best.set(to, arrivalMin);
+
+        let marked = new Set<string>([to]);
+        this.relaxFootpathsBackward(labels[0], best, marked, from, 0, closedEdges);
+
+        // Round 0 labels are walk/local legs into the destination. Leaving a stop that way is
+        // always later than catching a bus there, so they must not bound the boardings, or no
+        // journey would ever take local transport to a bus (local-only trips are planned separately)
+        best.clear();
+        best.set(to, arrivalMin);
+
+        const journeys: Journey[] = [];
+
+        for (let round = 1; round <= maxRounds && marked.size > 0; round++) {
+            const previous = labels[round - 1];
+            const current = new Map(previous);
+            labels.push(current);
+
+            // Latest marked position per pattern
+            const queue = new Map<Pattern, number>();
+            marked.forEach(stop => {
+                (patternsByStop.get(stop) || []).forEach(pattern => {
+                    const pos = pattern.stops.lastIndexOf(stop);
+                    const queued = queue.get(pattern);
+                    if (queued === undefined || pos > queued) {
+                        queue.set(pattern, pos);
+                    }
+                });
+            });
+
+            const newlyMarked = new Set<string>();
+
+            queue.forEach((startPos, pattern) => {
+                let riding: PatternTrip | null = null;
+                let alightPos = -1;
+
+                for (let pos = startPos; pos >= 0; pos--) {
+                    const stop = pattern.stops[pos];
+
+                    // Board here if it departs later than anything seen so far (and the bus stops here)
+                    if (riding && !riding.times[pos].skipped) {
+                        const departureMin = riding.times[pos].departureMin;
+                        const bound = Math.max(best.get(stop) ?? -Infinity, best.get(from) ?? -Infinity);
+                        if (departureMin > bound) {
+                            current.set(stop, {
+                                kind: 'bus',
+                                round,
+                                timeMin: departureMin,
+                                patternTrip: riding,
+                                boardPos: pos,
+                                alightPos
+                            });
+                            best.set(stop, departureMin);
+                            newlyMarked.add(stop);
+                        }
+                    }
+
+                    // Switch to a later trip if alighting here still makes the previous round's deadline
+                    const deadline = previous.get(stop);
+                    if (deadline && (!riding || deadline.timeMin >= riding.times[pos].arrivalMin)) {
+                        const candidate = this.latestTrip(pattern, pos, deadline.timeMin);
+                        // Ties switch too, so the same trip is left at the earliest stop that works
+                        if (candidate && (!riding || candidate.times[pos].arrivalMin >= riding.times[pos].arrivalMin)) {
+                            riding = candidate;
+                            alightPos = pos;
+                        }
+                    }
+                }
+            });
+
+            this.relaxFootpathsBackward(current, best, newlyMarked, from, round, closedEdges);
+            marked = newlyMarked;
+
+            const origin = current.get(from);
+            if (origin && origin.round === round) {
+                const journey = this.reconstructForward(labels, from, date);
+                if (journey) {
+                    journeys.push(journey);
+                }
+            }
+        }
+
+        return journeys;
+    }
+
+    /**
+     * Group trips into patterns (same route, same stop sequence), with live times where
+     * reported and disruptions applied
+     */
+    private buildPatterns(routes: Route[], date: string): Pattern[] {
+        const patterns = new Map<string, Pattern>();
+
+        routes.forEach(route => {
+            route.trips.forEach(trip => {
+                const key = `${route.route_id}|${trip.stops.join('>')}`;
+                if (!patterns.has(key)) {
+                    patterns.set(key, { stops: trip.stops, trips: [] });
+                }
+                patterns.get(key)!.trips.push({ route, trip, times: disruptionService.getStopTimes(route, trip, date) });
+            });
+        });
+
+        return Array.from(patterns.values());
+    }
+
+    /**
+     * Patterns serving each stop
+     */
+    private indexPatterns(patterns: Pattern[]): Map<string, Pattern[]> {
+        const patternsByStop = new Map<string, Pattern[]>();
+        patterns.forEach(pattern => {
+            new Set(pattern.stops).forEach(stop => {
+                if (!patternsByStop.has(stop)) {
+                    patternsByStop.set(stop, []);
+                }
+                patternsByStop.get(stop)!.push(pattern);
+            });
+        });
+        return patternsByStop;
+    }
+
+    /**
+     * Earliest trip of a pattern departing position `pos` at or after `readyMin`
+     */
+    private earliestTrip(pattern: Pattern, pos: number, readyMin: number): PatternTrip | null {
+        let earliest: PatternTrip | null = null;
+        for (const patternTrip of pattern.trips) {
+            if (patternTrip.times[pos].skipped) continue;
+            const departure = patternTrip.times[pos].departureMin;
+            if (departure >= readyMin && (!earliest || departure < earliest.times[pos].departureMin)) {
+                earliest = patternTrip;
+            }
+        }
+        return earliest;
+    }
+
+    /**
+     * Latest trip of a pattern arriving at position `pos` no later than `deadlineMin`
+     */
+    private latestTrip(pattern: Pattern, pos: number, deadlineMin: number): PatternTrip | null {
+        let latest: PatternTrip | null = null;
+        for (const patternTrip of pattern.trips) {
+            if (patternTrip.times[pos].skipped) continue;
+            const arrival = patternTrip.times[pos].arrivalMin;
+            if (arrival <= deadlineMin && (!latest || arrival > latest.times[pos].arrivalMin)) {
+                latest = patternTrip;
+            }
+        }
+        return latest;
+    }
+
+    /**
+     * Relax walk/local edges from the marked stops (chained, within the same round)
+     */
+    private relaxFootpaths(
+        current: Map<string, Label>,
+        best: Map<string, number>,
+        marked: Set<string>,
+        to: string,
+        round: number,
+        closedEdges: Set<string>
+    ): void {
+        const queue = Array.from(marked);
+
+        while (queue.length > 0) {
+            const stop = queue.shift()!;
+            const reachedMin = current.get(stop)!.timeMin;
+
+            graph.getNeighbors(stop).forEach(edge => {
+                if (edge.mode === 'bus' || closedEdges.has(edgeKey(stop, edge.to, edge.mode))) return;
+                if (round === 0 && edge.to === to) return; // Local-only trips are planned separately
+
+                const arrivalMin = reachedMin + edge.time_min;
+                const bound = Math.min(best.get(edge.to) ?? Infinity, best.get(to) ?? Infinity);
+                if (arrivalMin < bound) {
+                    current.set(edge.to, { kind: 'foot', round, timeMin: arrivalMin, viaStop: stop, edge });
+                    best.set(edge.to, arrivalMin);
+                    marked.add(edge.to);
+                    queue.push(edge.to);
+                }
+            });
+        }
+    }
+
+    /**
+     * Relax walk/local edges backwards into the marked stops
+     */
+    private relaxFootpathsBackward(
+        current: Map<string, Label>,
+        best: Map<string, number>,
+        marked: Set<string>,
+        from: string,
+        round: number,
+        closedEdges: Set<string>
+    ): void {
+        const queue = Array.from(marked);
+
+        while (queue.length > 0) {
+            const stop = queue.shift()!;
+            const leaveByMin = current.get(stop)!.timeMin;
+
+            graph.getIncoming(stop).forEach(({ from: predecessor, edge }) => {
+                if (edge.mode === 'bus' || closedEdges.has(edgeKey(predecessor, stop, edge.mode))) return;
+                if (round === 0 && predecessor === from) return; // Local-only trips are planned separately
+
+                const departureMin = leaveByMin - edge.time_min;
+                const bound = Math.max(best.get(predecessor) ?? -Infinity, best.get(from) ?? -Infinity);
+                if (departureMin > bound) {
+                    current.set(predecessor, { kind: 'foot', round, timeMin: departureMin, viaStop: stop, edge });
+                    best.set(predecessor, departureMin);
+                    marked.add(predecessor);
+                    queue.push(predecessor);
+                }
+            });
+        }
+    }
+
+    /**
+     * Walk the labels back from the destination into legs (forward search).
+     * Legs before the first bus are timed back from its departure, so nobody
+     * sets off at the request time only to wait at the stop.
+     */
+    private reconstruct(labels: Map<string, Label>[], to: string, date: string): Journey | null {
+        const legs: RouteLeg[] = [];
+        let stop = to;
+        let label = labels[labels.length - 1].get(to);
+        let departureMin = label?.timeMin ?? 0;
+
+        while (label && label.kind !== 'start') {
+            if (label.kind === 'bus') {
+                const { patternTrip, boardPos, alightPos } = label;
+                const boardStop = patternTrip.trip.stops[boardPos];
+                departureMin = patternTrip.times[boardPos].departureMin;
+
+                legs.unshift(this.busLeg(patternTrip, boardPos, alightPos, date));
+
+                stop = boardStop;
+                label = labels[label.round - 1].get(boardStop);
+            } else {
+                // Round 0 legs lead to the first bus (a bus leg already follows them)
+                departureMin = label.round === 0 && legs.length > 0
+                    ? departureMin - label.edge.time_min
+                    : label.timeMin - label.edge.time_min;
+
+                legs.unshift(this.footLeg(label.edge, label.viaStop, stop, departureMin, date));
+
+                stop = label.viaStop;
+                label = labels[label.round].get(label.viaStop);
+            }
+        }
+
+        const busLegs = legs.filter(leg => leg.mode === 'bus').length;
+        if (!label || busLegs === 0) {
+            return null;
+        }
+
+        return {
+            departureMin,
+            arrivalMin: labels[labels.length - 1].get(to)!.timeMin,
+            transfers: busLegs - 1,
+            legs
+        };
+    }
+
+    /**
+     * Follow the labels from the origin to the destination into legs (arrive-by search).
+     * Legs after the first bus are pulled forward so nobody waits at a stop for no reason.
+     */
+    private reconstructForward(labels: Map<string, Label>[], from: string, date: string): Journey | null {
+        const legs: RouteLeg[] = [];
+        let stop = from;
+        let label = labels[labels.length - 1].get(from);
+        let readyMin: number | null = null;
+
+        while (label && label.kind !== 'start') {
+            if (label.kind === 'bus') {
+                const { patternTrip, boardPos, alightPos } = label;
+                const alightStop = patternTrip.trip.stops[alightPos];
+                readyMin = patternTrip.times[alightPos].arrivalMin;
+
+                legs.push(this.busLeg(patternTrip, boardPos, alightPos, date));
+
+                stop = alightStop;
+                label = labels[label.round - 1].get(alightStop);
+            } else {
+                const departureMin: number = readyMin ?? label.timeMin;
+                if (readyMin !== null) {
+                    readyMin += label.edge.time_min;
+                }
+
+                legs.push(this.footLeg(label.edge, stop, label.viaStop, departureMin, date));
+
+                stop = label.viaStop;
+                label = labels[label.round].get(label.viaStop);
+            }
+        }
+
+        const busLegs = legs.filter(leg => leg.mode === 'bus').length;
+        if (!label || busLegs === 0 || readyMin === null) {
+            return null;
+        }
+
+        return {
+            departureMin: labels[labels.length - 1].get(from)!.timeMin,
+            arrivalMin: readyMin,
+            transfers: busLegs - 1,
+            legs
+        };
+    }
+
+    private busLeg(patternTrip: PatternTrip, boardPos: number, alightPos: number, date: string): RouteLeg {
+        const departure = patternTrip.times[boardPos].departureMin;
+        const arrival = patternTrip.times[alightPos].arrivalMin;
+
+        return {
+            mode: 'bus',
+            route_id: patternTrip.route.route_id,
+            trip_id: patternTrip.trip.trip_id,
+            serviceDate: date,
+            from: patternTrip.trip.stops[boardPos],
+            to: patternTrip.trip.stops[alightPos],
+            ...legTimes(date, departure, arrival),
+            durationMin: arrival - departure,
+            cost: 0,
+            source: 'graph',
+            estimated: patternTrip.times[alightPos].estimated,
+            timeSource: patternTrip.times[boardPos].realtime ? 'realtime' : 'scheduled',
+            delayMin: patternTrip.times[boardPos].departureDelayMin ?? 0
+        };
+    }
+
+    private footLeg(edge: EdgeInfo, from: string, to: string, departureMin: number, date: string): RouteLeg {
+        return {
+            mode: edge.mode,
+            from,
+            to,
+            ...legTimes(date, departureMin, departureMin + edge.time_min),
+            durationMin: edge.time_min,
+            distanceMeters: edge.distance_meters,
+            cost: edge.cost,
+            source: 'graph'
+        };
+    }
+}
+
+// Export singleton instance
+export const raptorPlanner = new RaptorPlanner();
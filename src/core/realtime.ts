@@ -0,0 +1,286 @@
+import { graph } from './graph';
+import { timetable } from './timetable';
+import { calendarService } from './calendar';
+import {
+    Trip,
+    TripStopTime,
+    RealtimeUpdate,
+    RealtimeTripStatus,
+    minutesToTime
+} from './types';
+
+const STALE_AFTER_MIN = 20;         // Older reports fall back to the timetable
+const MAX_CLOCK_SKEW_MIN = 5;       // Reports this far in the future are rejected
+const MAX_OFF_ROUTE_METERS = 300;   // GPS pings farther from the trip's path are rejected
+
+/**
+ * Where a trip was last seen: at (or leaving) `stopIndex`, or `fraction` of
+ * the way to the next stop, at `observedMin` on `date`
+ */
+interface TripObservation {
+    tripId: string;
+    date: string;
+    event: RealtimeTripStatus['event'];
+    stopIndex: number;
+    fraction: number;
+    observedMin: number;
+    observedAt: number;
+    receivedAt: number;
+    delayMin: number;
+}
+
+export type IngestResult = { ok: true; status: RealtimeTripStatus } | { ok: false; reason: string };
+
+export class RealtimeService {
+    private observations = new Map<string, TripObservation>();
+
+    /**
+     * Record one driver report; the latest report per trip wins
+     */
+    public ingest(update: RealtimeUpdate, now: Date = new Date()): IngestResult {
+        const trip = update?.trip_id ? graph.getTrip(update.trip_id) : undefined;
+        if (!trip) {
+            return { ok: false, reason: `Trip '${update?.trip_id}' not found` };
+        }
+
+        const at = update.timestamp !== undefined ? new Date(update.timestamp) : now;
+        if (isNaN(at.getTime())) {
+            return { ok: false, reason: `Invalid timestamp '${update.timestamp}'` };
+        }
+        const ageMin = (now.getTime() - at.getTime()) / 60000;
+        if (ageMin > STALE_AFTER_MIN || ageMin < -MAX_CLOCK_SKEW_MIN) {
+            return { ok: false, reason: `Timestamp ${at.toISOString()} is too far from the server clock` };
+        }
+
+        // Minutes of the trip's own service day, so a report at 00:10 on a trip
+        // scheduled at 24:10 is filed under the day before, not 1440 minutes early
+        const serviceDay = calendarService.tripServiceDay(trip, at);
+        if (!serviceDay) {
+            return { ok: false, reason: `Trip '${trip.trip_id}' does not run on ${calendarService.today(at)}` };
+        }
+        const { date, minute: observedMin } = serviceDay;
+        const located = 'stop_id' in update
+            ? this.locateStop(trip, update, date, observedMin)
+            : this.locatePosition(trip, update);
+        if ('reason' in located) {
+            return { ok: false, reason: located.reason };
+        }
+
+        const previous = this.observations.get(trip.trip_id);
+        if (previous && previous.date === date && previous.observedMin > observedMin) {
+            return { ok: false, reason: 'Older than the last report for this trip' };
+        }
+
+        const observation: TripObservation = {
+            tripId: trip.trip_id,
+            date,
+            event: located.event,
+            stopIndex: located.stopIndex,
+            fraction: located.fraction,
+            observedMin,
+            observedAt: at.getTime(),
+            receivedAt: now.getTime(),
+            delayMin: Math.round(observedMin - this.scheduledMinAt(timetable.getStopTimes(trip), located))
+        };
+        this.observations.set(trip.trip_id, observation);
+
+        return { ok: true, status: this.toStatus(trip, observation) };
+    }
+
+    /**
+     * Stop times of a trip on a date: predicted from the latest live report when
+     * there is a fresh one for that service day, otherwise the timetable
+     */
+    public getStopTimes(trip: Trip, date: string): TripStopTime[] {
+        const scheduled = timetable.getStopTimes(trip);
+        const observation = this.activeObservation(trip.trip_id, date);
+
+        // The trip may have been shortened by a data reload since the report
+        const lastIndex = observation ? observation.stopIndex + (observation.event === 'position' ? 1 : 0) : 0;
+        return observation && lastIndex < scheduled.length ? this.predict(scheduled, observation) : scheduled;
+    }
+
+    /**
+     * Latest fresh report of a trip on a date, if any
+     */
+    public getStatus(tripId: string, date: string = calendarService.today()): RealtimeTripStatus | null {
+        const trip = graph.getTrip(tripId);
+        const observation = this.activeObservation(tripId, date);
+        return trip && observation ? this.toStatus(trip, observation) : null;
+    }
+
+    /**
+     * Every trip with a fresh report (overnight trips under their own service day)
+     */
+    public getActiveStatuses(): RealtimeTripStatus[] {
+        return Array.from(this.observations.values())
+            .map(observation => this.getStatus(observation.tripId, observation.date))
+            .filter((status): status is RealtimeTripStatus => status !== null);
+    }
+
+    /**
+     * Delay model: stops behind the bus are shifted by the observed delay. Ahead of
+     * it the bus keeps the scheduled running time between stops and never leaves a
+     * stop before its scheduled departure, so lateness carries downstream until
+     * dwell time absorbs it.
+     */
+    private predict(scheduled: TripStopTime[], observation: TripObservation): TripStopTime[] {
+        const predicted = scheduled.map(stopTime => ({ ...stopTime }));
+        const { stopIndex, fraction, observedMin, delayMin, event } = observation;
+
+        for (let i = 0; i <= stopIndex; i++) {
+            predicted[i].arrivalMin += delayMin;
+            predicted[i].departureMin += delayMin;
+        }
+
+        let nextIndex = stopIndex + 1;
+        if (event === 'arrived') {
+            predicted[stopIndex].arrivalMin = observedMin;
+            predicted[stopIndex].departureMin = Math.max(scheduled[stopIndex].departureMin, observedMin);
+        } else if (event === 'departed') {
+            predicted[stopIndex].departureMin = observedMin;
+            predicted[stopIndex].arrivalMin = Math.min(predicted[stopIndex].arrivalMin, observedMin);
+        } else {
+            // Between stops: the rest of the current segment at scheduled speed
+            const run = scheduled[nextIndex].arrivalMin - scheduled[stopIndex].departureMin;
+            predicted[nextIndex].arrivalMin = observedMin + (1 - fraction) * run;
+            predicted[nextIndex].departureMin = Math.max(scheduled[nextIndex].departureMin, predicted[nextIndex].arrivalMin);
+            nextIndex++;
+        }
+
+        for (let i = nextIndex; i < predicted.length; i++) {
+            const run = scheduled[i].arrivalMin - scheduled[i - 1].departureMin;
+            predicted[i].arrivalMin = predicted[i - 1].departureMin + run;
+            predicted[i].departureMin = Math.max(scheduled[i].departureMin, predicted[i].arrivalMin);
+        }
+
+        return predicted.map((stopTime, i) => {
+            const arrivalMin = Math.round(stopTime.arrivalMin);
+            const departureMin = Math.max(arrivalMin, Math.round(stopTime.departureMin));
+            return {
+                ...stopTime,
+                arrivalMin,
+                departureMin,
+                realtime: true,
+                arrivalDelayMin: arrivalMin - scheduled[i].arrivalMin,
+                departureDelayMin: departureMin - scheduled[i].departureMin
+            };
+        });
+    }
+
+    private activeObservation(tripId: string, date: string): TripObservation | undefined {
+        const observation = this.observations.get(tripId);
+        if (!observation || observation.date !== date) return undefined;
+
+        const ageMin = (Date.now() - observation.observedAt) / 60000;
+        return ageMin <= STALE_AFTER_MIN ? observation : undefined;
+    }
+
+    /**
+     * Loop trips visit a stop twice; take the visit not behind the last report
+     * whose scheduled time is closest to the report
+     */
+    private locateStop(
+        trip: Trip,
+        update: { stop_id: string; event: 'arrived' | 'departed' },
+        date: string,
+        observedMin: number
+    ): { event: TripObservation['event']; stopIndex: number; fraction: number } | { reason: string } {
+        if (update.event !== 'arrived' && update.event !== 'departed') {
+            return { reason: `event must be 'arrived' or 'departed', got '${update.event}'` };
+        }
+
+        const visits = trip.stops
+            .map((stop, idx) => stop === update.stop_id ? idx : -1)
+            .filter(idx => idx !== -1);
+        if (visits.length === 0) {
+            return { reason: `Stop '${update.stop_id}' is not on trip '${trip.trip_id}'` };
+        }
+
+        const previous = this.observations.get(trip.trip_id);
+        const ahead = visits.filter(idx => previous?.date !== date || idx >= previous.stopIndex);
+        const stopTimes = timetable.getStopTimes(trip);
+        const scheduledMin = (idx: number) =>
+            update.event === 'arrived' ? stopTimes[idx].arrivalMin : stopTimes[idx].departureMin;
+
+        const stopIndex = (ahead.length > 0 ? ahead : visits).reduce((best, idx) =>
+            Math.abs(scheduledMin(idx) - observedMin) < Math.abs(scheduledMin(best) - observedMin) ? idx : best);
+
+        return { event: update.event, stopIndex, fraction: 0 };
+    }
+
+    /**
+     * Project a GPS ping onto the closest segment between consecutive geocoded stops
+     */
+    private locatePosition(
+        trip: Trip,
+        update: { lat: number; lng: number }
+    ): { event: TripObservation['event']; stopIndex: number; fraction: number } | { reason: string } {
+        if (typeof update.lat !== 'number' || typeof update.lng !== 'number' ||
+            Math.abs(update.lat) > 90 || Math.abs(update.lng) > 180) {
+            return { reason: 'A position needs numeric lat and lng (or use stop_id and event)' };
+        }
+
+        let best: { stopIndex: number; fraction: number; meters: number } | null = null;
+
+        for (let i = 0; i < trip.stops.length - 1; i++) {
+            const a = graph.getNode(trip.stops[i]);
+            const b = graph.getNode(trip.stops[i + 1]);
+            if (a?.lat === undefined || a?.lng === undefined || b?.lat === undefined || b?.lng === undefined) continue;
+
+            // Local flat projection (metres) around the segment start
+            const metersPerLng = 111320 * Math.cos(a.lat * Math.PI / 180);
+            const bx = (b.lng - a.lng) * metersPerLng;
+            const by = (b.lat - a.lat) * 110540;
+            const px = (update.lng - a.lng) * metersPerLng;
+            const py = (update.lat - a.lat) * 110540;
+
+            const lengthSq = bx * bx + by * by;
+            const fraction = lengthSq > 0 ? Math.min(1, Math.max(0, (px * bx + py * by) / lengthSq)) : 0;
+            const meters = Math.hypot(px - fraction * bx, py - fraction * by);
+
+            if (!best || meters < best.meters) {
+                best = { stopIndex: i, fraction, meters };
+            }
+        }
+
+        if (!best) {
+            return { reason: `Stops of trip '${trip.trip_id}' have no coordinates; send stop events instead` };
+        }
+        if (best.meters > MAX_OFF_ROUTE_METERS) {
+            return { reason: `Position is ${Math.round(best.meters)} m from the route of trip '${trip.trip_id}'` };
+        }
+
+        return { event: 'position', stopIndex: best.stopIndex, fraction: best.fraction };
+    }
+
+    /**
+     * When the timetable has the bus at the observed point
+     */
+    private scheduledMinAt(
+        scheduled: TripStopTime[],
+        located: { event: TripObservation['event']; stopIndex: number; fraction: number }
+    ): number {
+        const stop = scheduled[located.stopIndex];
+        if (located.event === 'arrived') return stop.arrivalMin;
+        if (located.event === 'departed') return stop.departureMin;
+
+        const next = scheduled[located.stopIndex + 1];
+        return stop.departureMin + located.fraction * (next.arrivalMin - stop.departureMin);
+    }
+
+    private toStatus(trip: Trip, observation: TripObservation): RealtimeTripStatus {
+        return {
+            trip_id: trip.trip_id,
+            date: observation.date,
+            event: observation.event,
+            lastStop: trip.stops[observation.stopIndex],
+            delayMin: observation.delayMin,
+            observedAt: minutesToTime(Math.floor(observation.observedMin)),
+            receivedAt: new Date(observation.receivedAt).toISOString()
+        };
+    }
+}
+
+// Export singleton instance
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,62 @@
+import { graph } from './graph';
+import {
+    Trip,
+    TripStopTime,
+    parseTime,
+    timeToMinutes
+} from './types';
+
+const DEFAULT_HOP_MIN = 5;
+
+export class Timetable {
+    /**
+     * Minutes assumed for a bus segment that has no edge in edges.json
+     * (override with BUS_DEFAULT_HOP_MIN)
+     */
+    public getDefaultHopMin(): number {
+        const configured = Number(process.env.BUS_DEFAULT_HOP_MIN);
+        return configured > 0 ? configured : DEFAULT_HOP_MIN;
+    }
+
+    /**
+     * Build the stop-time table for a trip. Published stop_times win; gaps
+     * are filled by accumulating bus segment times from the last known stop.
+     */
+    public getStopTimes(trip: Trip): TripStopTime[] {
+        const defaultHopMin = this.getDefaultHopMin();
+        const stopTimes: TripStopTime[] = [];
+
+        let currentMin = timeToMinutes(parseTime(trip.departure_time));
+        let estimated = false;
+
+        trip.stops.forEach((stop, idx) => {
+            if (idx > 0) {
+                const edge = graph.getEdge(trip.stops[idx - 1], stop, 'bus');
+                if (edge) {
+                    currentMin += edge.time_min;
+                } else {
+                    currentMin += defaultHopMin;
+                    estimated = true; // Everything downstream inherits the guess
+                }
+            }
+
+            let arrivalMin = currentMin;
+            let departureMin = currentMin;
+
+            const published = trip.stop_times?.[idx];
+            if (published?.arrival || published?.departure) {
+                arrivalMin = timeToMinutes(parseTime((published.arrival || published.departure)!));
+                departureMin = timeToMinutes(parseTime((published.departure || published.arrival)!));
+                estimated = false;
+            }
+
+            stopTimes.push({ stop, arrivalMin, departureMin, estimated });
+            currentMin = departureMin;
+        });
+
+        return stopTimes;
+    }
+}
+
+// Export singleton instance
+export const timetable = new Timetable();
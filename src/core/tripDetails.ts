@@ -0,0 +1,99 @@
+import { graph } from './graph';
+import { realtimeService } from './realtime';
+import { disruptionService } from './disruptions';
+import { crowdingModel } from './crowding';
+import { calendarService } from './calendar';
+import { geometryBuilder } from './geometry';
+import {
+    Route,
+    Trip,
+    RouteDetail,
+    TripDetail,
+    clockTime,
+    serviceDateTime
+} from './types';
+
+export class TripDetailsService {
+    /**
+     * A route with the full timeline of every trip on a date (default today)
+     */
+    public describeRoute(route: Route, date: string = calendarService.today()): RouteDetail {
+        return {
+            route_id: route.route_id,
+            name: route.name,
+            trips_count: route.trips.length,
+            trips: route.trips.map(trip => this.describeTrip(trip, route, date))
+        };
+    }
+
+    /**
+     * Ordered stops with names and times (live predictions when the trip is
+     * reporting, that day's disruptions applied), total distance and geometry of one
+     * trip on a date (default today). `runs` tells whether its service runs that day.
+     */
+    public describeTrip(trip: Trip, route: Route, date: string = calendarService.today()): TripDetail {
+        const stopTimes = disruptionService.getStopTimes(route, trip, date);
+        const first = stopTimes[0];
+        const last = stopTimes[stopTimes.length - 1];
+
+        return {
+            trip_id: trip.trip_id,
+            route_id: route.route_id,
+            routeName: route.name,
+            direction: trip.direction,
+            service_id: trip.service_id || null,
+            date,
+            departure: clockTime(first.departureMin),
+            arrival: clockTime(last.arrivalMin),
+            departureAt: serviceDateTime(date, first.departureMin),
+            arrivalAt: serviceDateTime(date, last.arrivalMin),
+            durationMin: last.arrivalMin - first.departureMin,
+            totalDistanceMeters: this.tripDistance(trip),
+            stops: stopTimes.map((stopTime, idx) => ({
+                sequence: idx + 1,
+                id: stopTime.stop,
+                name: graph.getNode(stopTime.stop)?.name || stopTime.stop,
+                arrival: clockTime(stopTime.arrivalMin),
+                departure: clockTime(stopTime.departureMin),
+                arrivalAt: serviceDateTime(date, stopTime.arrivalMin),
+                departureAt: serviceDateTime(date, stopTime.departureMin),
+                estimated: stopTime.estimated,
+                timeSource: stopTime.realtime ? 'realtime' : 'scheduled',
+                delayMin: stopTime.departureDelayMin ?? 0,
+                skipped: stopTime.skipped || false,
+                load: crowdingModel.estimate(trip, idx, date)
+            })),
+            runs: calendarService.isTripActive(trip, date),
+            cancelled: disruptionService.isCancelled(trip, date),
+            realtime: realtimeService.getStatus(trip.trip_id, date),
+            geometry: geometryBuilder.pathGeometry(trip.stops) || null
+        };
+    }
+
+    /**
+     * Route containing a trip
+     */
+    public findRouteOfTrip(tripId: string): Route | undefined {
+        return graph.getAllRoutes().find(route => route.trips.some(trip => trip.trip_id === tripId));
+    }
+
+    /**
+     * Sum of bus edge distances; null if any segment has no distance
+     */
+    private tripDistance(trip: Trip): number | null {
+        let total = 0;
+
+        for (let i = 1; i < trip.stops.length; i++) {
+            const edge = graph.getEdge(trip.stops[i - 1], trip.stops[i], 'bus');
+            if (edge?.distance_meters === undefined) {
+                return null;
+            }
+            total += edge.distance_meters;
+        }
+
+        return total;
+    }
+}
+
+// Export singleton instance
+export const tripDetails = new TripDetailsService();
@@ -9,6 +9,7 @@ export interface Node {
     gmaps_address: string;
     lat?: number;
     lng?: number;
+    aliases?: string[];
 }
 
 export interface Edge {
@@ -19,6 +20,13 @@ export interface Edge {
     time_min: number;
     cost: number;
     one_way: boolean;
+    distance_meters?: number;
+    source?: string;
+}
+
+export interface StopTimeEntry {
+    arrival?: string;
+    departure?: string;
 }
 
 export interface Trip {
@@ -26,6 +34,9 @@ export interface Trip {
     direction: 'to_campus' | 'from_campus';
     stops: string[];
     departure_time: string;
+    stop_times?: StopTimeEntry[];
+    service_id?: string;
+    capacity?: number;
 }
 
 export interface Route {
@@ -34,6 +45,67 @@ export interface Route {
     trips: Trip[];
 }
 
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface ServiceCalendar {
+    service_id: string;
+    name: string;
+    days: Weekday[];
+    start_date?: string;
+    end_date?: string;
+    added_dates?: string[];
+    removed_dates?: string[];
+}
+
+export type FareVehicle = 'cng' | 'rickshaw' | 'tempo' | 'walking';
+export type FareType = 'shared' | 'reserved';
+
+export interface FareTariff {
+    base_fare: number;
+    per_km: number;
+    min_fare: number;
+}
+
+export interface FareVehicleConfig {
+    name: string;
+    shared?: FareTariff;
+    reserved?: FareTariff;
+    night_surcharge_pct: number;
+    min_km?: number;
+    max_km?: number;
+}
+
+export interface FareConfig {
+    currency: string;
+    night: { start: string; end: string };
+    vehicles: Record<FareVehicle, FareVehicleConfig>;
+}
+
+export type DisruptionType = 'edge_closed' | 'stop_skipped' | 'trip_cancelled' | 'route_delay';
+
+/**
+ * A service alert that changes planning while it is in effect. `start` and `end`
+ * are server-local YYYY-MM-DDTHH:MM; without `end` it lasts until removed.
+ * Fields by type: edge_closed uses from/to (both directions, every mode unless
+ * `mode` is set), stop_skipped uses stop (and optionally route_id),
+ * trip_cancelled uses trip_id and route_delay uses route_id and delay_min.
+ */
+export interface Disruption {
+    id: string;
+    type: DisruptionType;
+    title: string;
+    description?: string;
+    start: string;
+    end?: string;
+    from?: string;
+    to?: string;
+    mode?: 'bus' | 'local' | 'walk';
+    stop?: string;
+    route_id?: string;
+    trip_id?: string;
+    delay_min?: number;
+}
+
 // ============================================================================
 // Internal Graph Types
 // ============================================================================
@@ -42,6 +114,14 @@ export interface GraphData {
     nodes: Node[];
     edges: Edge[];
     routes: Route[];
+    calendars?: ServiceCalendar[];
+    disruptions?: Disruption[];
+}
+
+export interface ValidationIssue {
+    severity: 'error' | 'warning';
+    code: string;
+    message: string;
 }
 
 export interface AdjacencyList {
@@ -54,6 +134,27 @@ export interface EdgeInfo {
     route_ids?: string[];
     time_min: number;
     cost: number;
+    distance_meters?: number;
+}
+
+export interface TripStopTime {
+    stop: string;
+    arrivalMin: number;
+    departureMin: number;
+    estimated: boolean;
+    realtime?: boolean;
+    arrivalDelayMin?: number;
+    departureDelayMin?: number;
+    skipped?: boolean;
+}
+
+/**
+ * A service date and its midnight in minutes from the midnight of the date being
+ * planned (-1440 for the day before, 1440 for the day after)
+ */
+export interface ServiceDay {
+    date: string;
+    offsetMin: number;
 }
 
 export interface PathResult {
@@ -64,6 +165,49 @@ export interface PathResult {
     edges: EdgeInfo[];
 }
 
+export interface Journey {
+    departureMin: number;
+    arrivalMin: number;
+    transfers: number;
+    legs: RouteLeg[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+export interface PlanOptions {
+    currentRoute?: string;
+    currentTrip?: string;
+    arriveBy?: boolean;
+    fareType?: FareType;
+    date?: string;
+    preferences?: RoutePreferences;
+}
+
+/**
+ * Hard limits drop options; weights (minute-equivalents) order the rest
+ */
+export interface RoutePreferences {
+    maxWalkMin?: number;
+    maxCost?: number;
+    avoidLocal?: boolean;
+    minimizeTransfers?: boolean;
+    avoidCrowded?: boolean;
+    weights?: {
+        time?: number;
+        cost?: number;
+        walk?: number;
+    };
+}
+
+export type RankingCriterion = 'time' | 'cost' | 'walk' | 'local' | 'transfers';
+
+/**
+ * Either end of a trip request: a known node or a raw GPS position
+ */
+export type PlanPoint = { nodeId: string } | { lat: number; lng: number };
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -77,15 +221,94 @@ export interface RouteLeg {
     to: string;
     departure?: string;
     arrival?: string;
+    departureAt?: string;
+    arrivalAt?: string;
+    serviceDate?: string;
     durationMin?: number;
     distanceMeters?: number;
     cost?: number;
-    source?: 'graph' | 'distance_matrix';
+    source?: 'graph' | LocalSegmentSource;
+    estimated?: boolean;
+    role?: 'access' | 'egress';
+    onBoard?: boolean;
+    timeSource?: TimeSource;
+    delayMin?: number;
+    load?: CrowdEstimate;
+    fare?: FareBreakdown;
+    geometry?: LineString;
+}
+
+/**
+ * How a local leg's cost was worked out; amounts are whole taka
+ */
+export interface FareBreakdown {
+    vehicle: FareVehicle;
+    fareType: FareType;
+    distanceKm: number;
+    baseFare: number;
+    distanceFare: number;
+    minimumApplied: boolean;
+    nightSurcharge: number;
+    total: number;
+    currency: string;
+}
+
+export type CrowdLevel = 'low' | 'medium' | 'high' | 'full';
+
+/**
+ * A rider's or driver's report of how full a bus is when it leaves a stop: a
+ * `level`, or a head count (`passengers`) for trips with a capacity
+ */
+export interface CrowdReport {
+    trip_id: string;
+    stop_id: string;
+    level?: CrowdLevel;
+    passengers?: number;
+    source?: 'rider' | 'driver';
+    timestamp?: string;
+}
+
+/**
+ * A stored report, reduced to the share of the bus that was full
+ */
+export interface CrowdObservation {
+    trip_id: string;
+    stop_id: string;
+    date: string;
+    loadFactor: number;
+    source: 'rider' | 'driver';
+    reportedAt: string;
+}
+
+/**
+ * Expected load of a trip when it leaves a stop. `reports` counts the
+ * observations behind it; `fromStop` is where they were made.
+ */
+export interface CrowdEstimate {
+    level: CrowdLevel;
+    loadFactor: number;
+    capacity: number | null;
+    expectedRiders: number | null;
+    reports: number;
+    fromStop: string;
+}
+
+/**
+ * Whether bus times come from a live vehicle report or the timetable
+ */
+export type TimeSource = 'realtime' | 'scheduled';
+
+/**
+ * GeoJSON LineString; coordinates are [lng, lat]
+ */
+export interface LineString {
+    type: 'LineString';
+    coordinates: [number, number][];
 }
 
 export interface RouteOption {
     label: string;
-    category: 'fastest' | 'least_local' | 'both';
+    category: 'fastest' | 'least_local' | 'both' | 'alternative';
     type: 'direct' | 'transfer' | 'local_only';
     transfers: number;
     totalTimeMin: number;
@@ -93,6 +316,8 @@ export interface RouteOption {
     localTimeMin: number;
     localDistanceMeters: number;
     usesDistanceMatrix: boolean;
+    wins?: RankingCriterion[];
+    score?: number;
     legs: RouteLeg[];
 }
 
@@ -100,7 +325,125 @@ export interface RouteResponse {
     from: string;
     to: string;
     requestTime: string;
+    requestAt: string;
+    date: string;
+    arriveBy: boolean;
+    currentTrip?: string;
+    filteredOut?: number;
     options: RouteOption[];
+    alerts: Disruption[];
+}
+
+export interface StopDeparture {
+    route_id: string;
+    routeName: string;
+    trip_id: string;
+    direction: 'to_campus' | 'from_campus';
+    departure: string;
+    departureAt: string;
+    minutesUntil: number;
+    estimated: boolean;
+    timeSource: TimeSource;
+    delayMin: number;
+    finalStop: string;
+    finalStopName: string;
+}
+
+export interface StopArrival {
+    route_id: string;
+    routeName: string;
+    trip_id: string;
+    direction: 'to_campus' | 'from_campus';
+    arrival: string;
+    arrivalAt: string;
+    minutesUntil: number;
+    estimated: boolean;
+    timeSource: TimeSource;
+    delayMin: number;
+    originStop: string;
+    originStopName: string;
+}
+
+export interface TripStopDetail {
+    sequence: number;
+    id: string;
+    name: string;
+    arrival: string;
+    departure: string;
+    arrivalAt: string;
+    departureAt: string;
+    estimated: boolean;
+    timeSource: TimeSource;
+    delayMin: number;
+    skipped: boolean;
+    load: CrowdEstimate | null;
+}
+
+export interface TripDetail {
+    trip_id: string;
+    route_id: string;
+    routeName: string;
+    direction: 'to_campus' | 'from_campus';
+    service_id: string | null;
+    date: string;
+    departure: string;
+    arrival: string;
+    departureAt: string;
+    arrivalAt: string;
+    durationMin: number;
+    totalDistanceMeters: number | null;
+    stops: TripStopDetail[];
+    runs: boolean;
+    cancelled: boolean;
+    realtime: RealtimeTripStatus | null;
+    geometry: LineString | null;
+}
+
+/**
+ * A driver's phone report: a GPS ping, or arriving at / departing from a stop.
+ * `timestamp` (ISO 8601) defaults to the time the server receives it.
+ */
+export type RealtimeUpdate =
+    | { trip_id: string; stop_id: string; event: 'arrived' | 'departed'; timestamp?: string }
+    | { trip_id: string; lat: number; lng: number; timestamp?: string };
+
+export interface RealtimeTripStatus {
+    trip_id: string;
+    date: string;
+    event: 'arrived' | 'departed' | 'position';
+    lastStop: string;
+    delayMin: number;
+    observedAt: string;
+    receivedAt: string;
+}
+
+/**
+ * What a stream client follows: a trip's ETAs, a stop's departure board or a
+ * saved journey (planned at a fixed time and re-planned as conditions change)
+ */
+export type StreamTopic =
+    | { type: 'trip'; trip_id: string }
+    | { type: 'stop'; stop_id: string }
+    | { type: 'journey'; from: string; to: string; time?: string; date?: string; arriveBy?: boolean; fareType?: FareType };
+
+export type StreamEventName =
+    | 'trip_update'
+    | 'trip_cancelled'
+    | 'departures'
+    | 'journey_update'
+    | 'better_alternative';
+
+export interface StreamEvent {
+    event: StreamEventName;
+    topic: string;
+    data: unknown;
+}
+
+export interface RouteDetail {
+    route_id: string;
+    name: string;
+    trips_count: number;
+    trips: TripDetail[];
 }
 
 // ============================================================================
@@ -114,6 +457,25 @@ export interface DistanceMatrixResult {
     raw?: any;
     errorMessage?: string;
     fromCache?: boolean;
+    source?: LocalSegmentSource;
+}
+
+/**
+ * Where a last-mile segment's time/distance came from
+ */
+export type LocalSegmentSource = 'distance_matrix' | 'osrm' | 'valhalla' | 'estimate';
+
+/**
+ * Anything that can time a local (CNG/walking) segment between two nodes
+ */
+export interface LocalSegmentProvider {
+    readonly source: LocalSegmentSource;
+    isAvailable(): boolean;
+    getLocalSegment(
+        originNodeId: string,
+        destNodeId: string,
+        mode: 'driving' | 'walking'
+    ): Promise<DistanceMatrixResult>;
 }
 
 export interface CacheEntry {
@@ -154,8 +516,113 @@ export function minutesToTime(minutes: number): string {
     return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Service-day times keep counting past midnight (23:50 + 30 min = 24:20)
+ */
 export function addMinutes(timeStr: string, minutesToAdd: number): string {
     const time = parseTime(timeStr);
-    const totalMinutes = timeToMinutes(time) + minutesToAdd;
-    return minutesToTime(totalMinutes % 1440); // Wrap at 24 hours
+    return minutesToTime(timeToMinutes(time) + minutesToAdd);
+}
+
+/**
+ * Wall-clock HH:MM of a service-day minute (24:20 is 00:20, -10 is 23:50)
+ */
+export function clockTime(minutes: number): string {
+    return minutesToTime(((minutes % 1440) + 1440) % 1440);
+}
+
+export function addDays(date: string, days: number): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + days);
+    return day.toISOString().slice(0, 10);
+}
+
+let clockFormat: { timeZone: string; format: Intl.DateTimeFormat } | null = null;
+
+/**
+ * IANA timezone the timetables run in: SERVICE_TIMEZONE, Asia/Dhaka by default
+ */
+export function serviceTimeZone(): string {
+    return process.env.SERVICE_TIMEZONE || 'Asia/Dhaka';
+}
+
+/**
+ * Wall-clock date and minute of the day (seconds as a fraction) of an instant in the service timezone
+ */
+export function serviceClock(instant: Date): { date: string; minute: number } {
+    const timeZone = serviceTimeZone();
+    if (clockFormat?.timeZone !== timeZone) {
+        clockFormat = {
+            timeZone,
+            format: new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit'
+            })
+        };
+    }
+
+    const parts: Record<string, string> = {};
+    clockFormat.format.formatToParts(instant).forEach(part => {
+        parts[part.type] = part.value;
+    });
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        minute: Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60
+    };
+}
+
+/**
+ * UTC offset of the service timezone at an instant (epoch ms), in minutes
+ */
+function serviceOffsetMin(epochMs: number): number {
+    const clock = serviceClock(new Date(epochMs));
+    const wallClockMs = Date.parse(`${clock.date}T00:00:00Z`) + clock.minute * 60000;
+    return Math.round((wallClockMs - epochMs) / 60000);
+}
+
+/**
+ * ISO 8601 datetime (service timezone, with its UTC offset) of a minute counted
+ * from midnight of a service date; rolls into the days before and after
+ */
+export function serviceDateTime(date: string, minutes: number): string {
+    const whole = Math.floor(minutes);
+    const day = addDays(date, Math.floor(whole / 1440));
+    const clock = clockTime(whole);
+
+    // The offset of the wall-clock time itself: take it at a first guess of the instant, then correct
+    const wallClockMs = Date.parse(`${day}T${clock}:00Z`);
+    const guess = serviceOffsetMin(wallClockMs);
+    const offsetMin = serviceOffsetMin(wallClockMs - guess * 60000);
+
+    return `${day}T${clock}:00${offsetMin < 0 ? '-' : '+'}${minutesToTime(Math.abs(offsetMin))}`;
+}
+
+/**
+ * Minutes from midnight of a service date to an ISO datetime (inverse of serviceDateTime)
+ */
+export function serviceMinutes(date: string, dateTime: string): number {
+    return Math.round((Date.parse(dateTime) - Date.parse(serviceDateTime(date, 0))) / 60000);
+}
+
+/**
+ * Wall-clock and ISO times of a leg between two minutes of a service date
+ */
+export function legTimes(
+    date: string,
+    departureMin: number,
+    arrivalMin: number
+): Pick<RouteLeg, 'departure' | 'arrival' | 'departureAt' | 'arrivalAt'> {
+    return {
+        departure: clockTime(departureMin),
+        arrival: clockTime(arrivalMin),
+        departureAt: serviceDateTime(date, departureMin),
+        arrivalAt: serviceDateTime(date, arrivalMin)
+    };
 }
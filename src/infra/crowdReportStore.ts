@@ -0,0 +1,31 @@
+import * as fs from 'fs';
+import { CrowdObservation } from '../core/types';
+import { dataStore } from './dataStore';
+
+const REPORTS_FILE = 'crowd_reports.json';
+
+/**
+ * Crowd report history on disk (written atomically on every change)
+ */
+class CrowdReportStore {
+    /**
+     * Entries without a numeric load factor are dropped, so one bad report cannot
+     * turn every estimate into NaN
+     */
+    public load(): CrowdObservation[] {
+        const filePath = dataStore.filePath(REPORTS_FILE);
+        if (!fs.existsSync(filePath)) return [];
+
+        const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return Array.isArray(stored)
+            ? stored.filter(observation => Number.isFinite(observation?.loadFactor))
+            : [];
+    }
+
+    public save(observations: CrowdObservation[]): void {
+        dataStore.writeJsonAtomic(dataStore.filePath(REPORTS_FILE), observations, 2);
+    }
+}
+
+// Export singleton instance
+export const crowdReportStore = new CrowdReportStore();
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Graph, graph, replaceGraph } from '../core/graph';
+import { fareModel } from '../core/fares';
+import { liveUpdates } from '../core/liveUpdates';
+import { GraphData } from '../core/types';
+import { dataStore } from './dataStore';
+
+const WATCHED_FILES = ['nodes.json', 'edges.json', 'routes.json', 'calendars.json', 'disruptions.json', 'fares.json'];
+const DEBOUNCE_MS = 300;
+
+export interface ReloadStatus {
+    version: string | null;
+    loadedAt: string | null;
+    reloads: number;
+    lastError: { message: string; at: string } | null;
+}
+
+class DataReloader {
+    private watcher: fs.FSWatcher | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private status: ReloadStatus = {
+        version: null,
+        loadedAt: null,
+        reloads: 0,
+        lastError: null
+    };
+
+    /**
+     * Record the version of the already loaded graph and start watching src/data
+     */
+    public start(): void {
+        this.markLoaded(graph.toData());
+
+        // Watch the directory, not the files: atomic writes rename a new file over the old one
+        const dataDir = path.dirname(dataStore.filePath(WATCHED_FILES[0]));
+        this.watcher = fs.watch(dataDir, (_event, fileName) => {
+            if (fileName && WATCHED_FILES.includes(fileName.toString())) {
+                this.scheduleReload();
+            }
+        });
+
+        console.log(`👀 Watching ${dataDir} for data changes (version ${this.status.version})`);
+    }
+
+    public stop(): void {
+        this.watcher?.close();
+        this.watcher = null;
+        if (this.timer) clearTimeout(this.timer);
+    }
+
+    /**
+     * Build a new graph from the data set and swap it in. Throws (keeping the
+     * current graph) if the data does not validate.
+     */
+    public apply(data: GraphData): void {
+        const next = new Graph();
+        next.loadFromData(data);
+        replaceGraph(next);
+        this.markLoaded(data);
+
+        // Disruptions and timetable edits change what stream clients see
+        liveUpdates.refresh();
+    }
+
+    public getStatus(): ReloadStatus {
+        return { ...this.status };
+    }
+
+    /**
+     * Editors save in several steps; wait for the writes to settle before reloading
+     */
+    private scheduleReload(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.reload();
+        }, DEBOUNCE_MS);
+    }
+
+    private reload(): void {
+        try {
+            // Fares are not part of the graph version; re-reading them is cheap
+            fareModel.reload();
+
+            const data = dataStore.read();
+
+            // Admin API writes are applied directly; skip the echo from the watcher
+            // (or a broken edit that was reverted)
+            if (this.versionOf(data) === this.status.version) {
+                this.status.lastError = null;
+                return;
+            }
+
+            this.apply(data);
+            this.status.reloads++;
+            console.log(`🔄 Graph data reloaded (version ${this.status.version})`);
+        } catch (error: any) {
+            this.status.lastError = { message: error.message, at: new Date().toISOString() };
+            console.error(`✗ Graph reload failed, keeping version ${this.status.version}: ${error.message}`);
+        }
+    }
+
+    private markLoaded(data: GraphData): void {
+        this.status.version = this.versionOf(data);
+        this.status.loadedAt = new Date().toISOString();
+        this.status.lastError = null;
+    }
+
+    /**
+     * Short content hash, independent of file formatting
+     */
+    private versionOf(data: GraphData): string {
+        const normalized = JSON.stringify({
+            nodes: data.nodes,
+            edges: data.edges,
+            routes: data.routes,
+            calendars: data.calendars || [],
+            disruptions: data.disruptions || []
+        });
+        return crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 12);
+    }
+}
+
+// Export singleton instance
+export const dataReloader = new DataReloader();
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphData, FareConfig } from '../core/types';
+
+export class DataStore {
+    constructor(private readonly dataDir: string = path.join(__dirname, '../data')) { }
+
+    /**
+     * Read nodes, edges, routes and (optional) calendars and disruptions from the data directory
+     */
+    public read(): GraphData {
+        const calendarsPath = this.filePath('calendars.json');
+        const disruptionsPath = this.filePath('disruptions.json');
+
+        return {
+            nodes: this.readJson('nodes.json'),
+            edges: this.readJson('edges.json'),
+            routes: this.readJson('routes.json'),
+            calendars: fs.existsSync(calendarsPath) ? this.readJson('calendars.json') : [],
+            disruptions: fs.existsSync(disruptionsPath) ? this.readJson('disruptions.json') : []
+        };
+    }
+
+    /**
+     * Read the local transport fare model
+     */
+    public readFares(): FareConfig {
+        return this.readJson('fares.json');
+    }
+
+    /**
+     * Write every data file back to disk, each one atomically
+     */
+    public write(data: GraphData): void {
+        this.writeJsonAtomic(this.filePath('nodes.json'), data.nodes);
+        this.writeJsonAtomic(this.filePath('edges.json'), data.edges);
+        this.writeJsonAtomic(this.filePath('routes.json'), data.routes);
+        this.writeJsonAtomic(this.filePath('calendars.json'), data.calendars || []);
+        this.writeJsonAtomic(this.filePath('disruptions.json'), data.disruptions || []);
+    }
+
+    public filePath(fileName: string): string {
+        return path.join(this.dataDir, fileName);
+    }
+
+    /**
+     * Write to a temp file in the same directory, fsync, then rename over the target
+     * so readers never see a half-written file
+     */
+    public writeJsonAtomic(filePath: string, value: unknown, indent: number = 4): void {
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        const fd = fs.openSync(tempPath, 'w');
+
+        try {
+            fs.writeSync(fd, JSON.stringify(value, null, indent) + '\n');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        fs.renameSync(tempPath, filePath);
+    }
+
+    private readJson<T>(fileName: string): T {
+        return JSON.parse(fs.readFileSync(this.filePath(fileName), 'utf-8'));
+    }
+}
+
+// Export singleton instance
+export const dataStore = new DataStore();
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import { CacheEntry } from '../core/types';
+import { dataStore } from './dataStore';
+
+const CACHE_FILE = 'distance_cache.json';
+const LEDGER_FILE = 'dm_quota.json';
+
+/**
+ * Distance Matrix calls counted against the daily/monthly budget
+ */
+export interface QuotaLedger {
+    lastReset: string;      // YYYY-MM-DD (UTC)
+    monthlyCount: number;
+    dailyCount: number;
+}
+
+/**
+ * On disk the timestamp is an ISO string (older files may hold epoch milliseconds)
+ */
+interface StoredCacheEntry {
+    distanceMeters: number;
+    durationSeconds: number;
+    timestamp: string | number;
+}
+
+/**
+ * Persistent Distance Matrix cache and quota ledger, shared by the API client
+ * and the populate-edges script. Both files are written atomically.
+ */
+class DistanceCacheStore {
+    /**
+     * Load cached segments keyed by `origin|dest|mode` (timestamps as epoch ms)
+     */
+    public loadCache(): Map<string, CacheEntry> {
+        const stored = this.readJson<Record<string, StoredCacheEntry>>(CACHE_FILE) || {};
+        const cache = new Map<string, CacheEntry>();
+
+        Object.entries(stored).forEach(([key, entry]) => {
+            cache.set(key, {
+                distanceMeters: entry.distanceMeters,
+                durationSeconds: entry.durationSeconds,
+                timestamp: this.toEpoch(entry.timestamp)
+            });
+        });
+
+        return cache;
+    }
+
+    /**
+     * Merge `cache` with the file as it is now (newest entry per key wins) and write
+     * it back, so the server and the populate-edges script keep each other's entries.
+     * Entries only on disk are added to `cache` as well.
+     */
+    public saveCache(cache: Map<string, CacheEntry>): void {
+        this.loadCache().forEach((entry, key) => {
+            const current = cache.get(key);
+            if (!current || entry.timestamp > current.timestamp) {
+                cache.set(key, entry);
+            }
+        });
+
+        const stored: Record<string, StoredCacheEntry> = {};
+        cache.forEach((entry, key) => {
+            stored[key] = {
+                distanceMeters: entry.distanceMeters,
+                durationSeconds: entry.durationSeconds,
+                timestamp: new Date(entry.timestamp).toISOString()
+            };
+        });
+
+        dataStore.writeJsonAtomic(dataStore.filePath(CACHE_FILE), stored, 2);
+    }
+
+    /**
+     * Load the quota ledger, already rolled over to today
+     */
+    public loadLedger(): QuotaLedger {
+        const stored = this.readJson<Partial<QuotaLedger>>(LEDGER_FILE) || {};
+        const ledger: QuotaLedger = {
+            lastReset: typeof stored.lastReset === 'string' ? stored.lastReset : this.today(),
+            monthlyCount: Number(stored.monthlyCount) || 0,
+            dailyCount: Number(stored.dailyCount) || 0
+        };
+
+        this.rollOver(ledger);
+        return ledger;
+    }
+
+    /**
+     * Count calls against the ledger as it is on disk right now, so the server and the
+     * populate-edges script add to each other's counts instead of overwriting them
+     */
+    public recordCalls(count: number = 1): QuotaLedger {
+        const ledger = this.loadLedger();
+        ledger.monthlyCount += count;
+        ledger.dailyCount += count;
+        this.saveLedger(ledger);
+        return ledger;
+    }
+
+    public saveLedger(ledger: QuotaLedger): void {
+        dataStore.writeJsonAtomic(dataStore.filePath(LEDGER_FILE), {
+            lastReset: ledger.lastReset,
+            monthlyCount: ledger.monthlyCount,
+            dailyCount: ledger.dailyCount
+        }, 2);
+    }
+
+    /**
+     * Zero the daily (and on a new month, monthly) counter if the date changed
+     */
+    public rollOver(ledger: QuotaLedger): { daily: boolean; monthly: boolean } {
+        const today = this.today();
+        if (ledger.lastReset === today) {
+            return { daily: false, monthly: false };
+        }
+
+        const monthly = ledger.lastReset.slice(0, 7) !== today.slice(0, 7);
+        ledger.dailyCount = 0;
+        if (monthly) {
+            ledger.monthlyCount = 0;
+        }
+        ledger.lastReset = today;
+
+        return { daily: true, monthly };
+    }
+
+    private today(): string {
+        return new Date().toISOString().slice(0, 10);
+    }
+
+    /**
+     * Unparseable timestamps become 0 so the entry counts as expired
+     */
+    private toEpoch(timestamp: string | number): number {
+        const value = typeof timestamp === 'number' ? timestamp : Date.parse(timestamp);
+        return isNaN(value) ? 0 : value;
+    }
+
+    private readJson<T>(fileName: string): T | null {
+        const filePath = dataStore.filePath(fileName);
+        if (!fs.existsSync(filePath)) return null;
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+}
+
+// Export singleton instance
+export const distanceCacheStore = new DistanceCacheStore();
@@ -3,10 +3,13 @@ import { graph } from '../core/graph';
 import {
     DistanceMatrixResult,
     CacheEntry,
-    UsageStats
+    UsageStats,
+    LocalSegmentProvider
 } from '../core/types';
+import { distanceCacheStore } from './distanceCacheStore';
 
-class DistanceMatrixClient {
+class DistanceMatrixClient implements LocalSegmentProvider {
+    public readonly source = 'distance_matrix' as const;
     private apiKey: string;
     private cache: Map<string, CacheEntry> = new Map();
     private usageStats: UsageStats = {
@@ -29,6 +32,18 @@ class DistanceMatrixClient {
         } else {
             console.log('✓ Distance Matrix client initialized');
         }
+
+        // Restore cached segments and quota counters from the last run
+        try {
+            this.cache = distanceCacheStore.loadCache();
+            this.usageStats = { ...this.usageStats, ...distanceCacheStore.loadLedger() };
+        } catch (error: any) {
+            console.warn(`⚠️  Could not load Distance Matrix cache/quota files: ${error.message}`);
+        }
+    }
+
+    public isAvailable(): boolean {
+        return !!this.apiKey;
     }
 
     /**
@@ -61,7 +76,8 @@ class DistanceMatrixClient {
                 ok: true,
                 distanceMeters: cached.distanceMeters,
                 durationSeconds: cached.durationSeconds,
-                fromCache: true
+                fromCache: true,
+                source: this.source
             };
         }
 
@@ -108,9 +124,10 @@ class DistanceMatrixClient {
                 timeout: 10000 // 10 second timeout
             });
 
-            // Increment usage counters
+            // Increment usage counters (persisted so restarts don't reset the budget)
             this.usageStats.monthlyCount++;
             this.usageStats.dailyCount++;
+            this.persist(() => Object.assign(this.usageStats, distanceCacheStore.recordCalls()));
 
             const data = response.data;
 
@@ -145,6 +162,7 @@ class DistanceMatrixClient {
                 durationSeconds,
                 timestamp: Date.now()
             });
+            this.persist(() => distanceCacheStore.saveCache(this.cache));
 
             console.log(`  ✓ ${distanceMeters}m, ${durationSeconds}s`);
 
@@ -153,7 +171,8 @@ class DistanceMatrixClient {
                 distanceMeters,
                 durationSeconds,
                 raw: data,
-                fromCache: false
+                fromCache: false,
+                source: this.source
             };
 
         } catch (error: any) {
@@ -229,26 +248,34 @@ class DistanceMatrixClient {
     }
 
     /**
-     * Reset daily/monthly counters if date changed
+     * Reset daily/monthly counters if date changed, then pick up calls the
+     * populate-edges script has counted since the last request
      */
     private checkAndResetCounters(): void {
-        const today = new Date().toISOString().slice(0, 10);
-
-        if (this.usageStats.lastReset !== today) {
-            // New day
-            this.usageStats.dailyCount = 0;
+        const reset = distanceCacheStore.rollOver(this.usageStats);
 
-            // Check if new month
-            const lastMonth = this.usageStats.lastReset.slice(0, 7); // YYYY-MM
-            const currentMonth = today.slice(0, 7);
+        if (reset.monthly) {
+            console.log('✓ Monthly quota reset');
+        }
+        if (reset.daily) {
+            console.log('✓ Daily quota reset');
+        }
 
-            if (lastMonth !== currentMonth) {
-                this.usageStats.monthlyCount = 0;
-                console.log('✓ Monthly quota reset');
-            }
+        try {
+            Object.assign(this.usageStats, distanceCacheStore.loadLedger());
+        } catch (error: any) {
+            console.warn(`⚠️  Could not read Distance Matrix quota file: ${error.message}`);
+        }
+    }
 
-            this.usageStats.lastReset = today;
-            console.log('✓ Daily quota reset');
+    /**
+     * A failed write must not fail the request; the next call retries it
+     */
+    private persist(write: () => void): void {
+        try {
+            write();
+        } catch (error: any) {
+            console.error(`  ✗ Could not save Distance Matrix state: ${error.message}`);
         }
     }
 }
@@ -0,0 +1,424 @@
+import AdmZip from 'adm-zip';
+import { graph } from '../core/graph';
+import { timetable } from '../core/timetable';
+import {
+    GraphData,
+    Node,
+    Edge,
+    Route,
+    Trip,
+    StopTimeEntry,
+    ServiceCalendar,
+    Weekday,
+    minutesToTime,
+    serviceTimeZone
+} from '../core/types';
+
+type CsvRow = Record<string, string>;
+
+const AGENCY_ID = 'SUST';
+const SERVICE_ID = 'ALL_DAYS';
+const GTFS_WEEKDAYS: [string, Weekday][] = [
+    ['monday', 'mon'], ['tuesday', 'tue'], ['wednesday', 'wed'], ['thursday', 'thu'],
+    ['friday', 'fri'], ['saturday', 'sat'], ['sunday', 'sun']
+];
+
+class GtfsConverter {
+    /**
+     * Build a GTFS static feed (zip) from the loaded graph
+     */
+    public exportFeed(): Buffer {
+        const zip = new AdmZip();
+        const routes = graph.getAllRoutes();
+        const year = new Date().getFullYear();
+
+        this.addCsv(zip, 'agency.txt', ['agency_id', 'agency_name', 'agency_url', 'agency_timezone'], [
+            [AGENCY_ID, 'SUST Transport Office', 'https://www.sust.edu', serviceTimeZone()]
+        ]);
+
+        // Node type and address ride along as extra columns so a round trip is lossless
+        this.addCsv(zip, 'stops.txt',
+            ['stop_id', 'stop_name', 'stop_desc', 'stop_lat', 'stop_lon', 'location_type', 'node_type'],
+            graph.getAllNodes().map(node => [
+                node.id,
+                node.name,
+                node.gmaps_address,
+                node.lat !== undefined ? String(node.lat) : '',
+                node.lng !== undefined ? String(node.lng) : '',
+                '0',
+                node.type
+            ])
+        );
+
+        this.addCsv(zip, 'routes.txt',
+            ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type'],
+            routes.map(route => [route.route_id, AGENCY_ID, route.name, route.name, '3'])
+        );
+
+        this.addCsv(zip, 'trips.txt',
+            ['route_id', 'service_id', 'trip_id', 'direction_id', 'trip_headsign'],
+            routes.flatMap(route => route.trips.map(trip => [
+                route.route_id,
+                trip.service_id || SERVICE_ID,
+                trip.trip_id,
+                trip.direction === 'from_campus' ? '1' : '0',
+                graph.getNode(trip.stops[trip.stops.length - 1])?.name || ''
+            ]))
+        );
+
+        this.addCsv(zip, 'stop_times.txt',
+            ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'timepoint'],
+            routes.flatMap(route => route.trips.flatMap(trip =>
+                timetable.getStopTimes(trip).map((stopTime, idx) => [
+                    trip.trip_id,
+                    this.formatGtfsTime(stopTime.arrivalMin),
+                    this.formatGtfsTime(stopTime.departureMin),
+                    stopTime.stop,
+                    String(idx + 1),
+                    stopTime.estimated ? '0' : '1'
+                ])
+            ))
+        );
+
+        // Trips without a service_id run daily under a catch-all service
+        const calendars = graph.getAllCalendars();
+        if (routes.some(route => route.trips.some(trip => !trip.service_id))) {
+            calendars.push({ service_id: SERVICE_ID, name: 'Every day', days: GTFS_WEEKDAYS.map(([, day]) => day) });
+        }
+
+        this.addCsv(zip, 'calendar.txt',
+            ['service_id', ...GTFS_WEEKDAYS.map(([gtfsDay]) => gtfsDay), 'start_date', 'end_date'],
+            calendars.map(calendar => [
+                calendar.service_id,
+                ...GTFS_WEEKDAYS.map(([, day]) => calendar.days.includes(day) ? '1' : '0'),
+                this.formatGtfsDate(calendar.start_date || `${year}-01-01`),
+                this.formatGtfsDate(calendar.end_date || `${year + 1}-12-31`)
+            ])
+        );
+
+        this.addCsv(zip, 'calendar_dates.txt', ['service_id', 'date', 'exception_type'],
+            calendars.flatMap(calendar => [
+                ...(calendar.added_dates || []).map(date => [calendar.service_id, this.formatGtfsDate(date), '1']),
+                ...(calendar.removed_dates || []).map(date => [calendar.service_id, this.formatGtfsDate(date), '2'])
+            ])
+        );
+
+        // Walking edges become timed transfers; local (CNG/rickshaw) edges have no GTFS equivalent
+        const transfers: string[][] = [];
+        graph.getAllEdges().filter(edge => edge.mode === 'walk').forEach(edge => {
+            transfers.push([edge.from, edge.to, '2', String(edge.time_min * 60)]);
+            if (!edge.one_way) {
+                transfers.push([edge.to, edge.from, '2', String(edge.time_min * 60)]);
+            }
+        });
+        this.addCsv(zip, 'transfers.txt', ['from_stop_id', 'to_stop_id', 'transfer_type', 'min_transfer_time'], transfers);
+
+        return zip.toBuffer();
+    }
+
+    /**
+     * Convert a GTFS static feed (zip) into nodes, edges and routes
+     */
+    public importFeed(zipBuffer: Buffer): GraphData {
+        const zip = new AdmZip(zipBuffer);
+
+        const stops = this.readCsv(zip, 'stops.txt', true);
+        const routeRows = this.readCsv(zip, 'routes.txt', true);
+        const tripRows = this.readCsv(zip, 'trips.txt', true);
+        const stopTimeRows = this.readCsv(zip, 'stop_times.txt', true);
+        const transferRows = this.readCsv(zip, 'transfers.txt', false);
+        const calendars = this.importCalendars(
+            this.readCsv(zip, 'calendar.txt', false),
+            this.readCsv(zip, 'calendar_dates.txt', false)
+        );
+
+        // Stops (stations and entrances are skipped)
+        const nodes: Node[] = stops
+            .filter(row => !row.location_type || row.location_type === '0')
+            .map(row => {
+                const lat = row.stop_lat ? Number(row.stop_lat) : undefined;
+                const lng = row.stop_lon ? Number(row.stop_lon) : undefined;
+                const nodeType = ['stop', 'intersection', 'destination'].includes(row.node_type)
+                    ? row.node_type as Node['type']
+                    : 'stop';
+
+                return {
+                    id: row.stop_id,
+                    name: row.stop_name || row.stop_id,
+                    type: nodeType,
+                    gmaps_address: row.stop_desc || (lat !== undefined && lng !== undefined ? `${lat},${lng}` : row.stop_name),
+                    lat,
+                    lng
+                };
+            });
+
+        // Group stop_times by trip in sequence order
+        const stopTimesByTrip = new Map<string, CsvRow[]>();
+        stopTimeRows.forEach(row => {
+            if (!stopTimesByTrip.has(row.trip_id)) {
+                stopTimesByTrip.set(row.trip_id, []);
+            }
+            stopTimesByTrip.get(row.trip_id)!.push(row);
+        });
+        stopTimesByTrip.forEach(rows => rows.sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence)));
+
+        // Routes and trips
+        const routes = new Map<string, Route>();
+        routeRows.forEach(row => {
+            routes.set(row.route_id, {
+                route_id: row.route_id,
+                name: row.route_short_name || row.route_long_name || row.route_id,
+                trips: []
+            });
+        });
+
+        tripRows.forEach(row => {
+            const route = routes.get(row.route_id);
+            const rows = stopTimesByTrip.get(row.trip_id);
+            if (!route || !rows || rows.length === 0) {
+                console.warn(`  ⚠️  Skipping trip ${row.trip_id}: unknown route or no stop_times`);
+                return;
+            }
+
+            const firstTime = rows[0].departure_time || rows[0].arrival_time;
+            if (!firstTime) {
+                console.warn(`  ⚠️  Skipping trip ${row.trip_id}: first stop has no time`);
+                return;
+            }
+
+            const stopTimes: StopTimeEntry[] = rows.map(stopRow => {
+                if (stopRow.timepoint === '0' || (!stopRow.arrival_time && !stopRow.departure_time)) {
+                    return {};
+                }
+                return {
+                    arrival: this.parseGtfsTime(stopRow.arrival_time || stopRow.departure_time),
+                    departure: this.parseGtfsTime(stopRow.departure_time || stopRow.arrival_time)
+                };
+            });
+            stopTimes[0].departure = this.parseGtfsTime(firstTime);
+
+            const trip: Trip = {
+                trip_id: row.trip_id,
+                direction: row.direction_id === '1' ? 'from_campus' : 'to_campus',
+                stops: rows.map(stopRow => stopRow.stop_id),
+                departure_time: this.parseGtfsTime(firstTime),
+                stop_times: stopTimes,
+                service_id: calendars.has(row.service_id) ? row.service_id : undefined
+            };
+            route.trips.push(trip);
+        });
+
+        return {
+            nodes,
+            edges: [...this.deriveBusEdges(routes, stopTimesByTrip), ...this.deriveWalkEdges(transferRows)],
+            routes: Array.from(routes.values()).filter(route => route.trips.length > 0),
+            calendars: Array.from(calendars.values())
+        };
+    }
+
+    /**
+     * calendar.txt weekday patterns plus calendar_dates.txt exceptions
+     */
+    private importCalendars(calendarRows: CsvRow[], calendarDateRows: CsvRow[]): Map<string, ServiceCalendar> {
+        const calendars = new Map<string, ServiceCalendar>();
+
+        calendarRows.forEach(row => {
+            calendars.set(row.service_id, {
+                service_id: row.service_id,
+                name: row.service_id,
+                days: GTFS_WEEKDAYS.filter(([gtfsDay]) => row[gtfsDay] === '1').map(([, day]) => day),
+                start_date: row.start_date ? this.parseGtfsDate(row.start_date) : undefined,
+                end_date: row.end_date ? this.parseGtfsDate(row.end_date) : undefined
+            });
+        });
+
+        // Services may be defined purely through calendar_dates.txt
+        calendarDateRows.forEach(row => {
+            if (!calendars.has(row.service_id)) {
+                calendars.set(row.service_id, { service_id: row.service_id, name: row.service_id, days: [] });
+            }
+
+            const calendar = calendars.get(row.service_id)!;
+            const date = this.parseGtfsDate(row.date);
+            if (row.exception_type === '1') {
+                calendar.added_dates = [...(calendar.added_dates || []), date];
+            } else if (row.exception_type === '2') {
+                calendar.removed_dates = [...(calendar.removed_dates || []), date];
+            }
+        });
+
+        return calendars;
+    }
+
+    /**
+     * Derive bus edges from consecutive stops of every trip, timed from the raw stop_times rows.
+     * A hop no trip has times for gets no edge, so the timetable estimates it
+     * (BUS_DEFAULT_HOP_MIN) and marks the stops after it `estimated`.
+     */
+    private deriveBusEdges(routes: Map<string, Route>, stopTimesByTrip: Map<string, CsvRow[]>): Edge[] {
+        const edges = new Map<string, Edge>();
+        const routeIds = new Map<string, string[]>();
+
+        routes.forEach(route => {
+            route.trips.forEach(trip => {
+                const rows = stopTimesByTrip.get(trip.trip_id)!;
+
+                for (let i = 0; i < trip.stops.length - 1; i++) {
+                    const key = `${trip.stops[i]}|${trip.stops[i + 1]}`;
+                    const leave = rows[i].departure_time || rows[i].arrival_time;
+                    const reach = rows[i + 1].arrival_time || rows[i + 1].departure_time;
+                    const timeMin = leave && reach ? this.gtfsTimeToMinutes(reach) - this.gtfsTimeToMinutes(leave) : undefined;
+
+                    const ids = routeIds.get(key) || [];
+                    if (!ids.includes(route.route_id)) {
+                        ids.push(route.route_id);
+                    }
+                    routeIds.set(key, ids);
+
+                    if (timeMin === undefined || timeMin < 0) continue; // Unknown hop time
+
+                    const existing = edges.get(key);
+                    if (existing) {
+                        if (existing.time_min === 0 && timeMin > 0) {
+                            existing.time_min = timeMin;
+                        }
+                        continue;
+                    }
+
+                    edges.set(key, {
+                        from: trip.stops[i],
+                        to: trip.stops[i + 1],
+                        mode: 'bus',
+                        route_ids: ids,
+                        time_min: timeMin,
+                        cost: 0,
+                        one_way: true
+                    });
+                }
+            });
+        });
+
+        return Array.from(edges.values());
+    }
+
+    /**
+     * Timed transfers become one-way walking edges
+     */
+    private deriveWalkEdges(transferRows: CsvRow[]): Edge[] {
+        return transferRows
+            .filter(row => row.transfer_type === '2' && row.from_stop_id !== row.to_stop_id)
+            .map(row => ({
+                from: row.from_stop_id,
+                to: row.to_stop_id,
+                mode: 'walk' as const,
+                time_min: Math.ceil(Number(row.min_transfer_time || 0) / 60),
+                cost: 0,
+                one_way: true
+            }));
+    }
+
+    private addCsv(zip: AdmZip, fileName: string, header: string[], rows: string[][]): void {
+        const lines = [header, ...rows].map(row => row.map(value => this.escapeCsv(value)).join(','));
+        zip.addFile(fileName, Buffer.from(lines.join('\r\n') + '\r\n', 'utf-8'));
+    }
+
+    private escapeCsv(value: string): string {
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private readCsv(zip: AdmZip, fileName: string, required: boolean): CsvRow[] {
+        const entry = zip.getEntry(fileName);
+        if (!entry) {
+            if (required) {
+                throw new Error(`GTFS feed is missing ${fileName}`);
+            }
+            return [];
+        }
+
+        const rows = this.parseCsv(entry.getData().toString('utf-8').replace(/^\uFEFF/, ''));
+        const header = (rows.shift() || []).map(name => name.trim());
+
+        return rows
+            .filter(row => row.length > 1 || row[0] !== '')
+            .map(row => {
+                const record: CsvRow = {};
+                header.forEach((name, idx) => record[name] = (row[idx] || '').trim());
+                return record;
+            });
+    }
+
+    /**
+     * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF)
+     */
+    private parseCsv(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let inQuotes = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (inQuotes) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    inQuotes = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"') {
+                inQuotes = true;
+            } else if (char === ',') {
+                row.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                row.push(field);
+                rows.push(row);
+                row = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (field !== '' || row.length > 0) {
+            row.push(field);
+            rows.push(row);
+        }
+
+        return rows;
+    }
+
+    /**
+     * GTFS HH:MM:SS (hours may exceed 24) -> HH:MM
+     */
+    private parseGtfsTime(value: string): string {
+        return minutesToTime(this.gtfsTimeToMinutes(value));
+    }
+
+    private gtfsTimeToMinutes(value: string): number {
+        const [hours, minutes] = value.split(':').map(Number);
+        return hours * 60 + minutes;
+    }
+
+    private formatGtfsTime(minutes: number): string {
+        return `${minutesToTime(minutes)}:00`;
+    }
+
+    /**
+     * YYYY-MM-DD <-> GTFS YYYYMMDD
+     */
+    private formatGtfsDate(date: string): string {
+        return date.replace(/-/g, '');
+    }
+
+    private parseGtfsDate(value: string): string {
+        return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+    }
+}
+
+// Export singleton instance
+export const gtfsConverter = new GtfsConverter();
@@ -0,0 +1,78 @@
+import { graph } from '../core/graph';
+import {
+    DistanceMatrixResult,
+    LocalSegmentProvider
+} from '../core/types';
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Straight-line distance is stretched by the road factor, then timed at the profile speed
+ */
+const PROFILES: Record<'driving' | 'walking', { roadFactor: number; speedKmh: number }> = {
+    driving: { roadFactor: 1.4, speedKmh: 18 },  // CNG/rickshaw in city traffic
+    walking: { roadFactor: 1.25, speedKmh: 4.5 }
+};
+
+/**
+ * Offline estimate from node lat/lng; always available, never leaves the process
+ */
+class HaversineEstimator implements LocalSegmentProvider {
+    public readonly source = 'estimate' as const;
+
+    public isAvailable(): boolean {
+        return true;
+    }
+
+    public async getLocalSegment(
+        originNodeId: string,
+        destNodeId: string,
+        mode: 'driving' | 'walking' = 'driving'
+    ): Promise<DistanceMatrixResult> {
+        const origin = graph.getNode(originNodeId);
+        const dest = graph.getNode(destNodeId);
+
+        if (!origin || !dest) {
+            return { ok: false, errorMessage: 'Invalid node IDs' };
+        }
+        if (origin.lat === undefined || origin.lng === undefined ||
+            dest.lat === undefined || dest.lng === undefined) {
+            return { ok: false, errorMessage: 'Node coordinates missing' };
+        }
+
+        return {
+            ok: true,
+            ...this.estimate(origin.lat, origin.lng, dest.lat, dest.lng, mode),
+            fromCache: false,
+            source: this.source
+        };
+    }
+
+    /**
+     * Road distance and travel time between two arbitrary points
+     */
+    public estimate(
+        lat1: number, lng1: number, lat2: number, lng2: number,
+        mode: 'driving' | 'walking'
+    ): { distanceMeters: number; durationSeconds: number } {
+        const profile = PROFILES[mode];
+        const distanceMeters = Math.round(this.haversineMeters(lat1, lng1, lat2, lng2) * profile.roadFactor);
+        const durationSeconds = Math.round(distanceMeters / (profile.speedKmh * 1000 / 3600));
+        return { distanceMeters, durationSeconds };
+    }
+
+    /**
+     * Great-circle distance in meters
+     */
+    public haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+        const toRad = (deg: number) => deg * Math.PI / 180;
+        const dLat = toRad(lat2 - lat1);
+        const dLng = toRad(lng2 - lng1);
+        const a = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+        return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+    }
+}
+
+// Export singleton instance
+export const haversineEstimator = new HaversineEstimator();
@@ -0,0 +1,83 @@
+import {
+    DistanceMatrixResult,
+    LocalSegmentProvider,
+    LocalSegmentSource
+} from '../core/types';
+import { distanceMatrixClient } from './distanceMatrixClient';
+import { RoutingEngineClient } from './routingEngineClient';
+import { haversineEstimator } from './haversineEstimator';
+
+const DEFAULT_CHAIN = 'distance_matrix,osrm,valhalla,estimate';
+
+/**
+ * Tries each configured provider in order (LOCAL_SEGMENT_PROVIDERS) until one answers
+ */
+class LocalSegmentChain {
+    private providers: LocalSegmentProvider[] | null = null;
+
+    public async getLocalSegment(
+        originNodeId: string,
+        destNodeId: string,
+        mode: 'driving' | 'walking' = 'driving'
+    ): Promise<DistanceMatrixResult> {
+        const errors: string[] = [];
+
+        for (const provider of this.getProviders()) {
+            if (!provider.isAvailable()) continue;
+
+            const result = await provider.getLocalSegment(originNodeId, destNodeId, mode);
+            if (result.ok) {
+                return result;
+            }
+            errors.push(`${provider.source}: ${result.errorMessage}`);
+        }
+
+        return {
+            ok: false,
+            errorMessage: errors.length > 0 ? errors.join('; ') : 'No local segment provider available'
+        };
+    }
+
+    /**
+     * Names of the providers in the chain, in order
+     */
+    public describe(): { source: LocalSegmentSource; available: boolean }[] {
+        return this.getProviders().map(provider => ({
+            source: provider.source,
+            available: provider.isAvailable()
+        }));
+    }
+
+    /**
+     * Built on first use so .env has been loaded
+     */
+    private getProviders(): LocalSegmentProvider[] {
+        if (this.providers) return this.providers;
+
+        const available: Record<LocalSegmentSource, LocalSegmentProvider> = {
+            distance_matrix: distanceMatrixClient,
+            osrm: new RoutingEngineClient('osrm', (process.env.OSRM_URL || '').replace(/\/+$/, '')),
+            valhalla: new RoutingEngineClient('valhalla', (process.env.VALHALLA_URL || '').replace(/\/+$/, '')),
+            estimate: haversineEstimator
+        };
+
+        const names = (process.env.LOCAL_SEGMENT_PROVIDERS || DEFAULT_CHAIN)
+            .split(',')
+            .map(name => name.trim())
+            .filter(name => name.length > 0);
+
+        this.providers = [];
+        for (const name of names) {
+            if (!(name in available)) {
+                console.warn(`⚠️  Unknown local segment provider '${name}' ignored`);
+                continue;
+            }
+            this.providers.push(available[name as LocalSegmentSource]);
+        }
+
+        return this.providers;
+    }
+}
+
+// Export singleton instance
+export const localSegmentProvider = new LocalSegmentChain();
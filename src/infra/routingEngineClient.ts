@@ -0,0 +1,105 @@
+import axios from 'axios';
+import { graph } from '../core/graph';
+import {
+    DistanceMatrixResult,
+    LocalSegmentProvider
+} from '../core/types';
+
+/**
+ * Self-hosted OSRM or Valhalla server (no quota, needs node lat/lng)
+ */
+export class RoutingEngineClient implements LocalSegmentProvider {
+    constructor(
+        public readonly source: 'osrm' | 'valhalla',
+        private readonly baseUrl: string
+    ) { }
+
+    public isAvailable(): boolean {
+        return !!this.baseUrl;
+    }
+
+    public async getLocalSegment(
+        originNodeId: string,
+        destNodeId: string,
+        mode: 'driving' | 'walking' = 'driving'
+    ): Promise<DistanceMatrixResult> {
+        const origin = graph.getNode(originNodeId);
+        const dest = graph.getNode(destNodeId);
+
+        if (!origin || !dest) {
+            return { ok: false, errorMessage: 'Invalid node IDs' };
+        }
+        if (origin.lat === undefined || origin.lng === undefined ||
+            dest.lat === undefined || dest.lng === undefined) {
+            return { ok: false, errorMessage: 'Node coordinates missing' };
+        }
+
+        console.log(`  🗺️  ${this.source.toUpperCase()}: ${originNodeId} → ${destNodeId} (${mode})`);
+
+        try {
+            const { distanceMeters, durationSeconds } = this.source === 'osrm'
+                ? await this.osrmRoute(origin.lat, origin.lng, dest.lat, dest.lng, mode)
+                : await this.valhallaRoute(origin.lat, origin.lng, dest.lat, dest.lng, mode);
+
+            return {
+                ok: true,
+                distanceMeters,
+                durationSeconds,
+                fromCache: false,
+                source: this.source
+            };
+        } catch (error: any) {
+            console.error(`  ✗ ${this.source.toUpperCase()} request failed: ${error.message}`);
+            return {
+                ok: false,
+                errorMessage: `${this.source} error: ${error.message}`
+            };
+        }
+    }
+
+    /**
+     * GET /route/v1/{profile}/{lng},{lat};{lng},{lat}
+     */
+    private async osrmRoute(
+        fromLat: number, fromLng: number, toLat: number, toLng: number,
+        mode: 'driving' | 'walking'
+    ): Promise<{ distanceMeters: number; durationSeconds: number }> {
+        const profile = mode === 'walking' ? 'foot' : 'driving';
+        const url = `${this.baseUrl}/route/v1/${profile}/${fromLng},${fromLat};${toLng},${toLat}`;
+        const response = await axios.get(url, { params: { overview: 'false' }, timeout: 5000 });
+
+        const route = response.data.routes?.[0];
+        if (response.data.code !== 'Ok' || !route) {
+            throw new Error(`status ${response.data.code}`);
+        }
+
+        return {
+            distanceMeters: Math.round(route.distance),
+            durationSeconds: Math.round(route.duration)
+        };
+    }
+
+    /**
+     * POST /route with auto/pedestrian costing
+     */
+    private async valhallaRoute(
+        fromLat: number, fromLng: number, toLat: number, toLng: number,
+        mode: 'driving' | 'walking'
+    ): Promise<{ distanceMeters: number; durationSeconds: number }> {
+        const response = await axios.post(`${this.baseUrl}/route`, {
+            locations: [{ lat: fromLat, lon: fromLng }, { lat: toLat, lon: toLng }],
+            costing: mode === 'walking' ? 'pedestrian' : 'auto',
+            units: 'kilometers'
+        }, { timeout: 5000 });
+
+        const summary = response.data.trip?.summary;
+        if (!summary) {
+            throw new Error('missing trip summary');
+        }
+
+        return {
+            distanceMeters: Math.round(summary.length * 1000),
+            durationSeconds: Math.round(summary.time)
+        };
+    }
+}
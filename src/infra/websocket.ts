@@ -0,0 +1,33 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+
+const MAX_MESSAGE_BYTES = 64 * 1024;    // Clients only send small subscribe/unsubscribe messages
+
+/**
+ * Accept WebSocket upgrades on `path`; any other upgrade request is refused.
+ * The protocol itself (handshake, versions, framing, control frames) is left to `ws`.
+ */
+export function acceptWebSockets(
+    server: Server,
+    path: string,
+    onConnection: (socket: WebSocket, req: IncomingMessage) => void
+): void {
+    const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        if (pathname !== path) {
+            socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+            return;
+        }
+
+        // `ws` also speaks the draft version 8; only the RFC 6455 version is offered
+        if (req.headers['sec-websocket-version'] !== '13') {
+            socket.end('HTTP/1.1 426 Upgrade Required\r\nSec-WebSocket-Version: 13\r\nConnection: close\r\n\r\n');
+            return;
+        }
+
+        sockets.handleUpgrade(req, socket, head, webSocket => onConnection(webSocket, req));
+    });
+}
@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { graph } from '../core/graph';
+import { gtfsConverter } from '../infra/gtfs';
+
+/**
+ * Export nodes.json / routes.json / edges.json as a GTFS static feed
+ *
+ * Usage: npm run export-gtfs -- [output.zip]
+ */
+function main() {
+    console.log('\n🚀 Exporting GTFS feed\n');
+
+    const outputPath = path.resolve(process.argv[2] || 'gtfs.zip');
+
+    graph.loadData();
+    const feed = gtfsConverter.exportFeed();
+    fs.writeFileSync(outputPath, feed);
+
+    console.log(`\n✅ SUCCESS! Wrote ${Math.round(feed.length / 1024)} KB`);
+    console.log(`\n📁 Saved to: ${outputPath}\n`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+}
@@ -0,0 +1,153 @@
+import dotenv from 'dotenv';
+import axios from 'axios';
+import * as fs from 'fs';
+import { Node } from '../core/types';
+import { dataStore } from '../infra/dataStore';
+
+// Load environment variables
+dotenv.config();
+
+interface GeocodeCacheEntry {
+    lat: number;
+    lng: number;
+    timestamp: string;
+}
+
+const CACHE_FILE = 'geocode_cache.json';
+
+/**
+ * Read `id,lat,lng` rows (header required, extra columns ignored)
+ */
+function readCoordinatesCsv(csvPath: string): Map<string, { lat: number; lng: number }> {
+    const lines = fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    const idCol = header.indexOf('id');
+    const latCol = header.indexOf('lat');
+    const lngCol = header.indexOf('lng');
+
+    if (idCol === -1 || latCol === -1 || lngCol === -1) {
+        throw new Error(`${csvPath}: header must contain id, lat and lng`);
+    }
+
+    const coordinates = new Map<string, { lat: number; lng: number }>();
+    lines.slice(1).forEach((line, idx) => {
+        const cells = line.split(',').map(cell => cell.trim());
+        const lat = Number(cells[latCol]);
+        const lng = Number(cells[lngCol]);
+        if (!cells[idCol] || isNaN(lat) || isNaN(lng)) {
+            console.warn(`  ⚠️  Skipping line ${idx + 2}: ${line}`);
+            return;
+        }
+        coordinates.set(cells[idCol], { lat, lng });
+    });
+
+    return coordinates;
+}
+
+async function geocode(address: string, apiKey: string): Promise<{ lat: number; lng: number } | null> {
+    try {
+        const response = await axios.get('https://maps.googleapis.com/maps/api/geocode/json', {
+            params: { address, key: apiKey },
+            timeout: 10000
+        });
+
+        if (response.data.status !== 'OK') {
+            console.error(`    ✗ API Error: ${response.data.status}`);
+            return null;
+        }
+
+        const location = response.data.results[0]?.geometry?.location;
+        return location ? { lat: location.lat, lng: location.lng } : null;
+    } catch (error: any) {
+        console.error(`    ✗ Request failed: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Fill node lat/lng from gmaps_address (Google Geocoding, cached) or from a CSV
+ *
+ * Usage: npm run geocode-nodes -- [--csv coordinates.csv] [--force]
+ * Without --force, nodes that already have coordinates are left alone.
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const force = args.includes('--force');
+    const csvIndex = args.indexOf('--csv');
+    const csvPath = csvIndex !== -1 ? args[csvIndex + 1] : undefined;
+
+    if (csvIndex !== -1 && !csvPath) {
+        console.error('❌ Usage: npm run geocode-nodes -- [--csv coordinates.csv] [--force]');
+        process.exit(1);
+    }
+
+    const apiKey = process.env.GOOGLE_GEOCODING_API_KEY || process.env.GOOGLE_DM_API_KEY || '';
+    if (!csvPath && !apiKey) {
+        console.error('❌ No API key found (GOOGLE_GEOCODING_API_KEY or GOOGLE_DM_API_KEY). Use --csv for offline mode.');
+        process.exit(1);
+    }
+
+    console.log(`\n🚀 Geocoding nodes ${csvPath ? `from ${csvPath} (offline)` : 'with Google Geocoding API'}\n`);
+
+    const nodesPath = dataStore.filePath('nodes.json');
+    const cachePath = dataStore.filePath(CACHE_FILE);
+    const nodes: Node[] = JSON.parse(fs.readFileSync(nodesPath, 'utf-8'));
+    const csvCoordinates = csvPath ? readCoordinatesCsv(csvPath) : null;
+    const cache: Record<string, GeocodeCacheEntry> = fs.existsSync(cachePath)
+        ? JSON.parse(fs.readFileSync(cachePath, 'utf-8'))
+        : {};
+
+    let updated = 0;
+    let apiCalls = 0;
+    let cacheHits = 0;
+    let missing = 0;
+
+    for (const node of nodes) {
+        if (!force && node.lat !== undefined && node.lng !== undefined) continue;
+
+        let coordinates: { lat: number; lng: number } | null | undefined;
+
+        if (csvCoordinates) {
+            coordinates = csvCoordinates.get(node.id);
+        } else if (cache[node.gmaps_address]) {
+            cacheHits++;
+            coordinates = cache[node.gmaps_address];
+        } else {
+            apiCalls++;
+            coordinates = await geocode(node.gmaps_address, apiKey);
+            if (coordinates) {
+                cache[node.gmaps_address] = { ...coordinates, timestamp: new Date().toISOString() };
+                dataStore.writeJsonAtomic(cachePath, cache, 2);
+            }
+            // Delay to avoid rate limiting
+            await new Promise(resolve => setTimeout(resolve, 200));
+        }
+
+        if (!coordinates) {
+            console.warn(`  ⚠️  ${node.id}: no coordinates found`);
+            missing++;
+            continue;
+        }
+
+        node.lat = coordinates.lat;
+        node.lng = coordinates.lng;
+        updated++;
+        console.log(`  ✓ ${node.name}: ${node.lat}, ${node.lng}`);
+    }
+
+    dataStore.writeJsonAtomic(nodesPath, nodes);
+
+    console.log(`\n📊 Summary:`);
+    console.log(`  Updated: ${updated}`);
+    console.log(`  Missing: ${missing}`);
+    if (!csvCoordinates) {
+        console.log(`  API calls: ${apiCalls}`);
+        console.log(`  Cache hits: ${cacheHits}`);
+    }
+    console.log(`\n📁 Saved to: ${nodesPath}\n`);
+}
+
+main().catch(error => {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+});
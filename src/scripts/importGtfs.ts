@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { gtfsConverter } from '../infra/gtfs';
+
+/**
+ * Convert a GTFS static feed into nodes.json / edges.json / routes.json / calendars.json
+ *
+ * Usage: npm run import-gtfs -- <feed.zip> [outputDir]
+ * The output directory defaults to src/data/imported so the live data is never overwritten.
+ */
+function main() {
+    const feedPath = process.argv[2];
+    if (!feedPath) {
+        console.error('❌ Usage: npm run import-gtfs -- <feed.zip> [outputDir]');
+        process.exit(1);
+    }
+
+    const outputDir = path.resolve(process.argv[3] || path.join(__dirname, '../data/imported'));
+
+    console.log(`\n🚀 Importing GTFS feed: ${feedPath}\n`);
+
+    const data = gtfsConverter.importFeed(fs.readFileSync(feedPath));
+    const tripCount = data.routes.reduce((sum, route) => sum + route.trips.length, 0);
+
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'nodes.json'), JSON.stringify(data.nodes, null, 4));
+    fs.writeFileSync(path.join(outputDir, 'edges.json'), JSON.stringify(data.edges, null, 4));
+    fs.writeFileSync(path.join(outputDir, 'routes.json'), JSON.stringify(data.routes, null, 4));
+    fs.writeFileSync(path.join(outputDir, 'calendars.json'), JSON.stringify(data.calendars || [], null, 4));
+
+    console.log(`📊 Summary:`);
+    console.log(`  Nodes: ${data.nodes.length}`);
+    console.log(`  Edges: ${data.edges.length}`);
+    console.log(`  Routes: ${data.routes.length} (${tripCount} trips)`);
+    console.log(`  Calendars: ${(data.calendars || []).length}`);
+    console.log(`\n📁 Saved to: ${outputDir}\n`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+}
@@ -2,6 +2,8 @@ import dotenv from 'dotenv';
 import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import { dataStore } from '../infra/dataStore';
+import { distanceCacheStore } from '../infra/distanceCacheStore';
 
 // Load environment variables
 dotenv.config();
@@ -77,7 +79,6 @@ async function main() {
     const dataDir = path.join(__dirname, '../data');
     const nodesPath = path.join(dataDir, 'nodes.json');
     const routesPath = path.join(dataDir, 'routes.json');
-    const cachePath = path.join(dataDir, 'distance_cache.json');
     const edgesPath = path.join(dataDir, 'edges.json');
 
     const nodes: Node[] = JSON.parse(fs.readFileSync(nodesPath, 'utf-8'));
@@ -87,12 +88,10 @@ async function main() {
     const nodeMap = new Map<string, Node>();
     nodes.forEach(n => nodeMap.set(n.id, n));
 
-    // Load or create cache
-    let cache: any = {};
-    if (fs.existsSync(cachePath)) {
-        cache = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
-        console.log(`📦 Loaded cache with ${Object.keys(cache).length} entries\n`);
-    }
+    // Load the cache and quota ledger shared with the API server
+    const cache = distanceCacheStore.loadCache();
+    const ledger = distanceCacheStore.loadLedger();
+    console.log(`📦 Loaded cache with ${cache.size} entries (quota used: ${ledger.monthlyCount} this month, ${ledger.dailyCount} today)\n`);
 
     // Extract unique stop pairs
     const stopPairs = new Map<string, { from: string, to: string, route_ids: string[] }>();
@@ -129,9 +128,9 @@ async function main() {
         const cacheKey = `${pair.from}|${pair.to}|driving`;
 
         // Check cache
-        if (cache[cacheKey]) {
+        const cached = cache.get(cacheKey);
+        if (cached) {
             cacheHits++;
-            const cached = cache[cacheKey];
 
             edges.push({
                 from: pair.from,
@@ -164,15 +163,19 @@ async function main() {
         // Call API
         const result = await getDistanceMatrix(fromNode.gmaps_address, toNode.gmaps_address);
 
+        // Every request counts against the budget, successful or not
+        distanceCacheStore.recordCalls();
+
         if (result) {
             apiCalls++;
 
             // Save to cache
-            cache[cacheKey] = {
+            cache.set(cacheKey, {
                 distanceMeters: result.distanceMeters,
                 durationSeconds: result.durationSeconds,
-                timestamp: new Date().toISOString()
-            };
+                timestamp: Date.now()
+            });
+            distanceCacheStore.saveCache(cache);
 
             edges.push({
                 from: pair.from,
@@ -223,12 +226,11 @@ async function main() {
 
     const allEdges = [...edges, ...localEdges];
 
-    // Save cache
-    fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2));
-    console.log(`\n💾 Cache saved: ${Object.keys(cache).length} entries`);
+    // Cache is saved after every API call, so a crash never loses paid-for results
+    console.log(`\n💾 Cache saved: ${cache.size} entries`);
 
     // Save edges
-    fs.writeFileSync(edgesPath, JSON.stringify(allEdges, null, 2));
+    dataStore.writeJsonAtomic(edgesPath, allEdges);
 
     console.log(`\n✅ SUCCESS! Created ${allEdges.length} total edges:`);
     console.log(`   - ${edges.length} bus edges (from Distance Matrix API)`);
@@ -0,0 +1,132 @@
+import dotenv from 'dotenv';
+import axios from 'axios';
+import { graph } from '../core/graph';
+import { timetable } from '../core/timetable';
+import { calendarService } from '../core/calendar';
+import { RealtimeUpdate, serviceClock } from '../core/types';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = '❌ Usage: npm run simulate-realtime -- [--url http://localhost:3000] [--max-delay 10] [--interval 30] [--once]';
+
+/**
+ * Option value after a flag, or the default
+ */
+function option(args: string[], flag: string, fallback: string): string {
+    const index = args.indexOf(flag);
+    return index !== -1 && args[index + 1] !== undefined ? args[index + 1] : fallback;
+}
+
+/**
+ * Where every running trip would be now if it were `delays[trip]` minutes late:
+ * a GPS ping between geocoded stops, otherwise an event for the last stop reached
+ */
+function buildUpdates(delays: Map<string, number>, maxDelay: number, now: Date): RealtimeUpdate[] {
+    const updates: RealtimeUpdate[] = [];
+    const { date, minute: nowMin } = serviceClock(now);
+
+    calendarService.getActiveRoutes(date).forEach(route => {
+        route.trips.forEach(trip => {
+            if (!delays.has(trip.trip_id)) {
+                delays.set(trip.trip_id, Math.floor(Math.random() * (maxDelay + 1)));
+            }
+            const delay = delays.get(trip.trip_id)!;
+            const stopTimes = timetable.getStopTimes(trip);
+            const scheduleMin = nowMin - delay;
+
+            // Not running yet, or already finished
+            if (scheduleMin < stopTimes[0].departureMin || scheduleMin >= stopTimes[stopTimes.length - 1].arrivalMin) return;
+
+            let last = 0;
+            while (last + 1 < stopTimes.length && stopTimes[last + 1].arrivalMin <= scheduleMin) last++;
+
+            const from = graph.getNode(trip.stops[last]);
+            const to = graph.getNode(trip.stops[last + 1]);
+            const run = stopTimes[last + 1].arrivalMin - stopTimes[last].departureMin;
+            const fraction = run > 0 ? Math.max(0, (scheduleMin - stopTimes[last].departureMin) / run) : 0;
+
+            if (from?.lat !== undefined && from?.lng !== undefined && to?.lat !== undefined && to?.lng !== undefined) {
+                updates.push({
+                    trip_id: trip.trip_id,
+                    lat: from.lat + (to.lat - from.lat) * fraction,
+                    lng: from.lng + (to.lng - from.lng) * fraction,
+                    timestamp: now.toISOString()
+                });
+            } else {
+                // Still dwelling at the stop, or gone
+                const dwelling = scheduleMin < stopTimes[last].departureMin;
+                const eventMin = (dwelling ? stopTimes[last].arrivalMin : stopTimes[last].departureMin) + delay;
+                updates.push({
+                    trip_id: trip.trip_id,
+                    stop_id: trip.stops[last],
+                    event: dwelling ? 'arrived' : 'departed',
+                    timestamp: new Date(now.getTime() + (eventMin - nowMin) * 60000).toISOString()
+                });
+            }
+        });
+    });
+
+    return updates;
+}
+
+/**
+ * Feed simulated driver reports for every trip running now into a local server
+ *
+ * Usage: npm run simulate-realtime -- [--url http://localhost:3000] [--max-delay 10] [--interval 30] [--once]
+ * Each trip gets a random lateness (0..max-delay minutes) that stays fixed for the run.
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const baseUrl = option(args, '--url', `http://localhost:${process.env.PORT || 3000}`);
+    const maxDelay = Number(option(args, '--max-delay', '10'));
+    const intervalSec = Number(option(args, '--interval', '30'));
+    const once = args.includes('--once');
+
+    if (isNaN(maxDelay) || maxDelay < 0 || isNaN(intervalSec) || intervalSec <= 0) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const apiKey = process.env.REALTIME_API_KEY;
+    if (!apiKey) {
+        console.error('❌ REALTIME_API_KEY is not set (the server needs the same key)');
+        process.exit(1);
+    }
+
+    graph.loadData();
+    const delays = new Map<string, number>();
+    console.log(`\n🚌 Simulating vehicle reports to ${baseUrl} (up to ${maxDelay} min late)\n`);
+
+    const tick = async () => {
+        const updates = buildUpdates(delays, maxDelay, new Date());
+        if (updates.length === 0) {
+            console.log(`  ${calendarService.currentTime()} No trips running`);
+            return;
+        }
+
+        try {
+            const response = await axios.post(`${baseUrl}/api/realtime/positions`, { updates }, {
+                headers: { Authorization: `Bearer ${apiKey}` },
+                validateStatus: () => true
+            });
+            const { accepted, rejected } = response.data;
+            console.log(`  ${calendarService.currentTime()} Sent ${updates.length}: ${accepted ?? 0} accepted, ${rejected?.length ?? 0} rejected`);
+            (rejected || []).forEach((item: { trip_id: string; reason: string }) => {
+                console.warn(`    ⚠️  ${item.trip_id}: ${item.reason}`);
+            });
+        } catch (error: any) {
+            console.error(`  ✗ Request failed: ${error.message}`);
+        }
+    };
+
+    await tick();
+    if (!once) {
+        setInterval(tick, intervalSec * 1000);
+    }
+}
+
+main().catch(error => {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,58 @@
+import * as path from 'path';
+import { dataValidator } from '../core/dataValidator';
+import { DataStore } from '../infra/dataStore';
+
+/**
+ * Check the network JSON files against every invariant the planner relies on
+ *
+ * Usage: npm run validate-data -- [dataDir] [--strict]
+ * Prints a JSON report on stdout and exits with code 1 if there are errors
+ * (or any warnings with --strict).
+ */
+function main() {
+    const args = process.argv.slice(2);
+    const strict = args.includes('--strict');
+    const dirArg = args.find(arg => !arg.startsWith('--'));
+    const dataDir = path.resolve(dirArg || path.join(__dirname, '../data'));
+    const data = new DataStore(dataDir).read();
+
+    const issues = dataValidator.validate(data);
+
+    // Network checks assume the basic shapes and references are sound
+    if (!issues.some(issue => issue.severity === 'error')) {
+        issues.push(...dataValidator.validateNetwork(data));
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    const valid = errors === 0 && (!strict || warnings === 0);
+
+    console.log(JSON.stringify({
+        dataDir,
+        strict,
+        valid,
+        summary: {
+            nodes: data.nodes.length,
+            edges: data.edges.length,
+            routes: data.routes.length,
+            trips: data.routes.reduce((sum, route) => sum + route.trips.length, 0),
+            errors,
+            warnings
+        },
+        issues
+    }, null, 2));
+
+    // Human-readable verdict on stderr so stdout stays parseable
+    if (!valid) {
+        console.error(`\n❌ ${errors} error(s), ${warnings} warning(s) in ${dataDir}`);
+        process.exit(1);
+    }
+    console.error(`\n✅ Data is valid (${warnings} warning(s))`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+}
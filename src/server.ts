@@ -3,8 +3,22 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import os from 'os';
 import { graph } from './core/graph';
-import { validateRouteQuery } from './api/validation';
+import {
+    validateRouteQuery,
+    validateSearchQuery,
+    validateBoardQuery,
+    validateAlertsQuery,
+    validateDetailQuery
+} from './api/validation';
 import * as routesController from './api/routesController';
+import * as adminController from './api/adminController';
+import * as realtimeController from './api/realtimeController';
+import * as streamController from './api/streamController';
+import * as crowdingController from './api/crowdingController';
+import { requireAdmin, requireRealtimeKey } from './api/auth';
+import { rateLimit } from './api/rateLimit';
+import { dataReloader } from './infra/dataReloader';
+import { acceptWebSockets } from './infra/websocket';
 
 // Load environment variables
 dotenv.config();
@@ -63,9 +77,49 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 // API Routes
 app.get('/api/health', routesController.healthCheck);
 app.get('/api/nodes', routesController.getNodes);
+app.get('/api/nodes/search', validateSearchQuery, routesController.searchNodes);
+app.get('/api/stops/:nodeId/departures', validateBoardQuery, routesController.getStopDepartures);
+app.get('/api/stops/:nodeId/arrivals', validateBoardQuery, routesController.getStopArrivals);
 app.get('/api/routes/list', routesController.getRoutes);
+// Must come after /api/routes/list so 'list' is not taken as a route ID
+app.get('/api/routes/:routeId', validateDetailQuery, routesController.getRouteDetail);
+app.get('/api/trips/:tripId', validateDetailQuery, routesController.getTripDetail);
+app.get('/api/fares', routesController.getFares);
+app.get('/api/alerts', validateAlertsQuery, routesController.getAlerts);
+app.get('/api/gtfs.zip', routesController.getGtfsFeed);
 app.get('/api/routes', validateRouteQuery, routesController.planRoute);
 
+// Realtime Routes (vehicle reports, ingestion requires REALTIME_API_KEY)
+app.post('/api/realtime/positions', requireRealtimeKey, realtimeController.ingestPositions);
+app.get('/api/realtime/trips', realtimeController.getRealtimeTrips);
+
+// Crowd reports from riders and drivers (no key, so limited per client)
+app.post('/api/crowding/reports',
+    rateLimit({ max: 10, windowMs: 60000, what: 'crowd report requests' }),
+    crowdingController.submitReports);
+
+// Push updates (SSE here, WebSocket on /api/stream/ws once the server is listening)
+app.get('/api/stream', streamController.openStream);
+
+// Admin Routes (network data editing, requires ADMIN_API_KEY)
+app.use('/api/admin', requireAdmin);
+app.post('/api/admin/nodes', adminController.createNode);
+app.put('/api/admin/nodes/:nodeId', adminController.updateNode);
+app.delete('/api/admin/nodes/:nodeId', adminController.deleteNode);
+app.post('/api/admin/edges', adminController.createEdge);
+app.put('/api/admin/edges/:from/:to/:mode', adminController.updateEdge);
+app.delete('/api/admin/edges/:from/:to/:mode', adminController.deleteEdge);
+app.post('/api/admin/routes', adminController.createRoute);
+app.put('/api/admin/routes/:routeId', adminController.updateRoute);
+app.delete('/api/admin/routes/:routeId', adminController.deleteRoute);
+app.post('/api/admin/routes/:routeId/trips', adminController.createTrip);
+app.put('/api/admin/trips/:tripId', adminController.updateTrip);
+app.delete('/api/admin/trips/:tripId', adminController.deleteTrip);
+app.get('/api/admin/disruptions', adminController.listDisruptions);
+app.post('/api/admin/disruptions', adminController.createDisruption);
+app.put('/api/admin/disruptions/:disruptionId', adminController.updateDisruption);
+app.delete('/api/admin/disruptions/:disruptionId', adminController.deleteDisruption);
+
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
     res.json({
@@ -74,8 +128,20 @@ app.get('/', (req: Request, res: Response) => {
         endpoints: {
             health: 'GET /api/health',
             nodes: 'GET /api/nodes',
+            search: 'GET /api/nodes/search?q=TEXT',
+            departures: 'GET /api/stops/NODE_ID/departures?time=HH:MM',
+            arrivals: 'GET /api/stops/NODE_ID/arrivals?time=HH:MM',
             routes: 'GET /api/routes/list',
-            plan: 'GET /api/routes?from=NODE_ID&to=NODE_ID&time=HH:MM'
+            route: 'GET /api/routes/ROUTE_ID?date=YYYY-MM-DD',
+            trip: 'GET /api/trips/TRIP_ID?date=YYYY-MM-DD',
+            fares: 'GET /api/fares',
+            alerts: 'GET /api/alerts?date=YYYY-MM-DD&time=HH:MM',
+            gtfs: 'GET /api/gtfs.zip',
+            plan: 'GET /api/routes?from=NODE_ID&to=NODE_ID&time=HH:MM',
+            realtime: 'POST /api/realtime/positions (Bearer REALTIME_API_KEY), GET /api/realtime/trips',
+            crowding: 'POST /api/crowding/reports',
+            stream: 'GET /api/stream?trip=TRIP_ID&stop=NODE_ID&from=NODE_ID&to=NODE_ID (SSE), WebSocket /api/stream/ws',
+            admin: 'POST|PUT|DELETE /api/admin/{nodes,edges,routes,trips,disruptions} (Bearer ADMIN_API_KEY)'
         }
     });
 });
@@ -105,9 +171,10 @@ async function start() {
         // Load graph data
         console.log('Loading graph data...');
         graph.loadData();
+        dataReloader.start();
 
         // Start server on all network interfaces for cross-device access
-        app.listen(PORT, '0.0.0.0', () => {
+        const server = app.listen(PORT, '0.0.0.0', () => {
             const networkIP = getNetworkIP();
 
             console.log(`\n✓ Server running on http://localhost:${PORT}`);
@@ -126,6 +193,7 @@ async function start() {
             console.log(`   - Ensure devices are on the same WiFi network`);
             console.log(`   - Your network IP may change if router reassigns it\n`);
         });
+        acceptWebSockets(server, '/api/stream/ws', streamController.openWebSocket);
     } catch (error) {
         console.error('Failed to start server:', error);
         process.exit(1);